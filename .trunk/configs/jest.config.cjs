@@ -50,6 +50,7 @@ module.exports = {
     '!src/index.ts', // Barrel export file
     '!src/jest-adapter.ts', // Barrel export file
     '!src/vitest-adapter.ts', // Barrel export file
+    '!src/vitest-matchers.ts', // Type declarations only
     '!src/types.ts', // Type definitions only
   ],
   // Set coverage threshold to 98% (accounting for v8 provider limitations with simple return statements)
@@ -8,6 +8,7 @@
  */
 
 import { createCompleteActionClient } from '../src/helpers';
+import type { MockSafeActionClientConfig } from '../src/types';
 import { z } from 'zod';
 
 // Define metadata schema matching real usage
@@ -37,7 +38,7 @@ const {
 });
 
 // Add initial middleware that adds userAgent and startTime (matching real safe-action.ts)
-baseActionClient.use(async ({ next, ctx = {} }) => {
+export const actionClient = baseActionClient.use(async ({ next, ctx = {} }) => {
   return next({
     ctx: {
       userAgent: 'test-user-agent',
@@ -49,12 +50,11 @@ baseActionClient.use(async ({ next, ctx = {} }) => {
 // Export createSafeActionClient factory
 export function createSafeActionClient(config?: {
   defineMetadataSchema?: () => z.ZodType;
-  handleServerError?: (error: unknown) => string;
+  handleServerError?: MockSafeActionClientConfig['handleServerError'];
 }) {
   // handleServerError is called when errors occur, not during initialization
-  // Use a default error message for initialization
-  // The handleServerError callback will be used when actual errors happen
-  const client = createCompleteActionClient(
+  // It is forwarded so serverError values match what the real client returns
+  const baseClient = createCompleteActionClient(
     config?.defineMetadataSchema?.() || actionMetadataSchema,
     {
       defaultServerError: 'Something went wrong',
@@ -65,11 +65,12 @@ export function createSafeActionClient(config?: {
         testUserEmail: 'test@example.com',
         testAuthToken: 'test-token',
       },
+      handleServerError: config?.handleServerError,
     }
   ).actionClient;
 
-  // Add initial middleware
-  client.use(async ({ next, ctx = {} }) => {
+  // Add initial middleware (use() returns a new client, like next-safe-action)
+  return baseClient.use(async ({ next, ctx = {} }) => {
     return next({
       ctx: {
         userAgent: 'test-user-agent',
@@ -77,8 +78,6 @@ export function createSafeActionClient(config?: {
       },
     }); // Correct: next-safe-action format { ctx: newContext }
   });
-
-  return client;
 }
 
 // Export constants
@@ -91,4 +90,3 @@ export const DEFAULT_SERVER_ERROR_MESSAGE = 'Something went wrong';
 // Note: The real safe-action.ts will call .use() on these, so we need to export
 // the base clients that can be chained
 export { authedAction, optionalAuthAction, rateLimitedAction };
-
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { recordCalls } from '../src/action-calls';
+
+describe('action-calls', () => {
+  describe('recordCalls', () => {
+    it('should record the arguments and result of each call', async () => {
+      const action = recordCalls(async (call, clientInputs) => ({ data: clientInputs[0] }));
+
+      await action('first');
+      await action('second');
+
+      expect(action.calls).toHaveLength(2);
+      expect(action.calls[0].args).toEqual(['first']);
+      expect(action.lastCall?.result).toEqual({ data: 'second' });
+      expect(action.lastCall?.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep the details set by the action', async () => {
+      const action = recordCalls(async (call) => {
+        call.ctx = { userId: 'u1' };
+        return {};
+      });
+
+      await action();
+
+      expect(action.lastCall?.ctx).toEqual({ userId: 'u1' });
+    });
+
+    it('should record thrown errors', async () => {
+      const error = new Error('Boom');
+      const action = recordCalls(async () => {
+        throw error;
+      });
+
+      await expect(action()).rejects.toBe(error);
+
+      expect(action.lastCall?.error).toBe(error);
+      expect(action.lastCall?.result).toBeUndefined();
+    });
+
+    it('should clear the calls on resetCalls', async () => {
+      const action = recordCalls(async () => ({}));
+
+      await action();
+      action.resetCalls();
+
+      expect(action.calls).toEqual([]);
+      expect(action.lastCall).toBeUndefined();
+    });
+
+    it('should expose the mock function properties', async () => {
+      const error = new Error('Boom');
+      let finish: () => void = () => {};
+      const action = recordCalls(async (call, clientInputs) => {
+        if (clientInputs[0] === 'throw') {
+          throw error;
+        }
+        if (clientInputs[0] === 'wait') {
+          await new Promise<void>((resolve) => {
+            finish = resolve;
+          });
+        }
+        return { data: clientInputs[0] };
+      });
+
+      await action('ok');
+      await action('throw').catch(() => {});
+      const pending = action('wait');
+
+      expect(action._isMockFunction).toBe(true);
+      expect(action.getMockName()).toBe('action');
+      expect(action.mock.calls).toEqual([['ok'], ['throw'], ['wait']]);
+      expect(action.mock.results).toEqual([
+        { type: 'return', value: { data: 'ok' } },
+        { type: 'throw', value: error },
+        { type: 'incomplete', value: undefined },
+      ]);
+
+      finish();
+      await pending;
+    });
+
+    it('should work with the call matchers', async () => {
+      const action = recordCalls(async () => ({}));
+
+      await action({ id: '1' });
+
+      expect(action).toHaveBeenCalledTimes(1);
+      expect(action).toHaveBeenCalledWith({ id: '1' });
+      expect(action).not.toHaveBeenCalledWith({ id: '2' });
+    });
+  });
+});
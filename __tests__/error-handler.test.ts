@@ -4,14 +4,14 @@ import type { SafeActionResult } from '../src/types';
 
 describe('error-handler', () => {
   describe('handleError', () => {
-    it('should handle Error objects in development mode', () => {
+    it('should handle Error objects in development mode', async () => {
       const error = new Error('Test error message');
       const config = {
         defaultServerError: 'Something went wrong',
         isProduction: false,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result).toEqual({
         serverError: 'Test error message',
@@ -21,58 +21,58 @@ describe('error-handler', () => {
       expect(result.validationErrors).toBeUndefined();
     });
 
-    it('should use default message in production mode', () => {
+    it('should use default message in production mode', async () => {
       const error = new Error('Detailed error message');
       const config = {
         defaultServerError: 'Something went wrong',
         isProduction: true,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result).toEqual({
         serverError: 'Something went wrong',
       });
     });
 
-    it('should use default message when error has no message in development', () => {
+    it('should use default message when error has no message in development', async () => {
       const error = new Error('');
       const config = {
         defaultServerError: 'Something went wrong',
         isProduction: false,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result).toEqual({
         serverError: 'Something went wrong',
       });
     });
 
-    it('should handle non-Error types', () => {
+    it('should handle non-Error types', async () => {
       const config = {
         defaultServerError: 'Something went wrong',
         isProduction: false,
       };
 
-      expect(handleError('string error', config)).toEqual({
+      expect(await handleError('string error', config)).toEqual({
         serverError: 'Something went wrong',
       });
 
-      expect(handleError(42, config)).toEqual({
+      expect(await handleError(42, config)).toEqual({
         serverError: 'Something went wrong',
       });
 
-      expect(handleError(null, config)).toEqual({
+      expect(await handleError(null, config)).toEqual({
         serverError: 'Something went wrong',
       });
 
-      expect(handleError(undefined, config)).toEqual({
+      expect(await handleError(undefined, config)).toEqual({
         serverError: 'Something went wrong',
       });
     });
 
-    it('should handle custom Error subclasses', () => {
+    it('should handle custom Error subclasses', async () => {
       class CustomError extends Error {
         constructor(message: string) {
           super(message);
@@ -86,37 +86,101 @@ describe('error-handler', () => {
         isProduction: false,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result).toEqual({
         serverError: 'Custom error message',
       });
     });
 
-    it('should prioritize error message over default in development', () => {
+    it('should prioritize error message over default in development', async () => {
       const error = new Error('Specific error');
       const config = {
         defaultServerError: 'Generic error',
         isProduction: false,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result.serverError).toBe('Specific error');
     });
 
-    it('should always use default in production regardless of error message', () => {
+    it('should always use default in production regardless of error message', async () => {
       const error = new Error('Sensitive error details');
       const config = {
         defaultServerError: 'Something went wrong',
         isProduction: true,
       };
 
-      const result = handleError(error, config);
+      const result = await handleError(error, config);
 
       expect(result.serverError).toBe('Something went wrong');
       expect(result.serverError).not.toBe('Sensitive error details');
     });
   });
-});
 
+  describe('handleServerError', () => {
+    it('should use the handleServerError return value as serverError', async () => {
+      const utils = {
+        clientInput: { id: '1' },
+        bindArgsClientInputs: [],
+        ctx: {},
+        metadata: undefined,
+      };
+      const result = await handleError(new Error('Database unavailable'), {
+        defaultServerError: 'Something went wrong',
+        isProduction: true,
+        handleServerError: (error) => ({ code: 'INTERNAL', message: error.message }),
+        utils,
+      });
+
+      expect(result).toEqual({
+        serverError: { code: 'INTERNAL', message: 'Database unavailable' },
+      });
+    });
+
+    it('should pass a generic Error for non-Error values', async () => {
+      const received: Error[] = [];
+      await handleError('string error', {
+        defaultServerError: 'Something went wrong',
+        isProduction: false,
+        handleServerError: (error) => {
+          received.push(error);
+          return error.message;
+        },
+      });
+
+      expect(received[0]).toBeInstanceOf(Error);
+      expect(received[0].message).toBe('Something went wrong');
+    });
+
+    it('should pass empty utils when none are provided', async () => {
+      let receivedUtils: unknown;
+      await handleError(new Error('Test'), {
+        defaultServerError: 'Something went wrong',
+        isProduction: false,
+        handleServerError: (_error, utils) => {
+          receivedUtils = utils;
+          return 'handled';
+        },
+      });
+
+      expect(receivedUtils).toEqual({
+        clientInput: undefined,
+        bindArgsClientInputs: [],
+        ctx: {},
+        metadata: undefined,
+      });
+    });
+
+    it('should await an async handleServerError', async () => {
+      const result = await handleError(new Error('Database unavailable'), {
+        defaultServerError: 'Something went wrong',
+        isProduction: true,
+        handleServerError: async (error) => ({ message: error.message }),
+      });
+
+      expect(result).toEqual({ serverError: { message: 'Database unavailable' } });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { z } from 'zod';
+import {
+  ActionBindArgsValidationError,
+  ActionMetadataValidationError,
+  ActionOutputDataValidationError,
+  ActionServerValidationError,
+  ActionValidationError,
+  returnValidationErrors,
+} from '../src/errors';
+
+describe('errors', () => {
+  describe('ActionValidationError', () => {
+    it('should carry the validation errors', () => {
+      const validationErrors = { email: { _errors: ['Email already taken'] } };
+      const error = new ActionValidationError(validationErrors);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ActionValidationError');
+      expect(error.validationErrors).toBe(validationErrors);
+    });
+
+    it('should accept an overridden error message', () => {
+      const error = new ActionValidationError({ _errors: ['Invalid'] }, 'Please check the form');
+
+      expect(error.message).toBe('Please check the form');
+    });
+  });
+
+  describe('instanceof', () => {
+    it('should match errors created by another copy of the module', () => {
+      let copy = ActionValidationError;
+      jest.isolateModules(() => {
+        copy =
+          jest.requireActual<typeof import('../src/errors')>('../src/errors').ActionValidationError;
+      });
+
+      expect(copy).not.toBe(ActionValidationError);
+      expect(new copy({})).toBeInstanceOf(ActionValidationError);
+      expect(new ActionValidationError({})).toBeInstanceOf(copy);
+      expect(new ActionMetadataValidationError({})).not.toBeInstanceOf(ActionValidationError);
+      expect({ name: 'ActionValidationError' }).not.toBeInstanceOf(ActionValidationError);
+    });
+
+    it('should keep the prototype check for subclasses', () => {
+      class EmailTakenError extends ActionValidationError {}
+
+      expect(new EmailTakenError({})).toBeInstanceOf(ActionValidationError);
+      expect(new EmailTakenError({})).toBeInstanceOf(EmailTakenError);
+      expect(new ActionValidationError({})).not.toBeInstanceOf(EmailTakenError);
+    });
+  });
+
+  describe('returnValidationErrors', () => {
+    it('should throw ActionServerValidationError with the given errors', () => {
+      const schema = z.object({ email: z.string().email() });
+
+      expect(() =>
+        returnValidationErrors(schema, { email: { _errors: ['Email already taken'] } })
+      ).toThrow(ActionServerValidationError);
+      expect(() =>
+        returnValidationErrors(schema, { email: { _errors: ['Email already taken'] } })
+      ).not.toThrow(ActionValidationError);
+    });
+
+    it('should accept an async schema factory', () => {
+      const schema = z.object({ slug: z.string() });
+
+      try {
+        returnValidationErrors(async () => schema, { slug: { _errors: ['Slug already used'] } });
+      } catch (error) {
+        expect(error).toBeInstanceOf(ActionServerValidationError);
+        expect((error as ActionServerValidationError).validationErrors).toEqual({
+          slug: { _errors: ['Slug already used'] },
+        });
+      }
+      expect.assertions(2);
+    });
+  });
+
+  describe('ActionMetadataValidationError', () => {
+    it('should carry the metadata validation errors', () => {
+      const validationErrors = { actionName: { _errors: ['Required'] } };
+      const error = new ActionMetadataValidationError(validationErrors);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ActionMetadataValidationError');
+      expect(error.validationErrors).toBe(validationErrors);
+    });
+  });
+
+  describe('ActionBindArgsValidationError', () => {
+    it('should carry the bind args validation errors', () => {
+      const error = new ActionBindArgsValidationError([{}, { _errors: ['Invalid'] }]);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ActionBindArgsValidationError');
+      expect(error.validationErrors).toEqual([{}, { _errors: ['Invalid'] }]);
+    });
+  });
+
+  describe('ActionOutputDataValidationError', () => {
+    it('should carry the output validation errors', () => {
+      const validationErrors = { id: { _errors: ['Required'] } };
+      const error = new ActionOutputDataValidationError(validationErrors);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ActionOutputDataValidationError');
+      expect(error.validationErrors).toBe(validationErrors);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@jest/globals';
+import { createFormData, formDataToObject, isFormData } from '../src/form-data';
+
+describe('form-data', () => {
+  describe('isFormData', () => {
+    it('should recognize FormData', () => {
+      expect(isFormData(new FormData())).toBe(true);
+      expect(isFormData({ title: 'Hello' })).toBe(false);
+      expect(isFormData(undefined)).toBe(false);
+    });
+  });
+
+  describe('formDataToObject', () => {
+    it('should convert single entries to values', () => {
+      const formData = new FormData();
+      formData.append('title', 'Hello');
+      formData.append('body', 'World');
+
+      expect(formDataToObject(formData)).toEqual({ title: 'Hello', body: 'World' });
+    });
+
+    it('should convert repeated keys to arrays', () => {
+      const formData = new FormData();
+      formData.append('tags', 'a');
+      formData.append('title', 'Hello');
+      formData.append('tags', 'b');
+
+      expect(formDataToObject(formData)).toEqual({ tags: ['a', 'b'], title: 'Hello' });
+    });
+
+    it('should convert keys ending with [] to arrays, even with a single entry', () => {
+      const formData = new FormData();
+      formData.append('tags[]', 'a');
+      formData.append('ids[]', '1');
+      formData.append('ids[]', '2');
+
+      expect(formDataToObject(formData)).toEqual({ tags: ['a'], ids: ['1', '2'] });
+      expect(formDataToObject(createFormData({ tags: ['a'] }))).toEqual({ tags: 'a' });
+    });
+
+    it('should keep files', () => {
+      const file = new File(['content'], 'avatar.png', { type: 'image/png' });
+      const formData = new FormData();
+      formData.append('avatar', file);
+
+      const values = formDataToObject(formData);
+
+      expect(values.avatar).toBeInstanceOf(File);
+      expect((values.avatar as File).name).toBe('avatar.png');
+    });
+  });
+
+  describe('createFormData', () => {
+    it('should append strings, numbers, booleans and dates', () => {
+      const formData = createFormData({
+        title: 'Hello',
+        count: 3,
+        published: true,
+        date: new Date('2024-01-01T00:00:00.000Z'),
+      });
+
+      expect(formDataToObject(formData)).toEqual({
+        title: 'Hello',
+        count: '3',
+        published: 'true',
+        date: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should append arrays as repeated keys and skip null and undefined', () => {
+      const formData = createFormData({ tags: ['a', null, 'b'], draft: undefined, note: null });
+
+      expect(formData.getAll('tags')).toEqual(['a', 'b']);
+      expect(formData.has('draft')).toBe(false);
+      expect(formData.has('note')).toBe(false);
+    });
+
+    it('should append files', () => {
+      const file = new File(['content'], 'avatar.png', { type: 'image/png' });
+      const formData = createFormData({ avatar: file });
+
+      expect((formData.get('avatar') as File).name).toBe('avatar.png');
+    });
+  });
+});
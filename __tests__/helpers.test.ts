@@ -19,15 +19,13 @@ describe('helpers', () => {
       });
 
       const schema = z.object({ id: z.string() });
-      const action = client
-        .inputSchema(schema)
-        .action(async ({ parsedInput, ctx }) => {
-          return {
-            id: parsedInput.id,
-            userId: ctx.userId,
-            userEmail: ctx.userEmail,
-          };
-        });
+      const action = client.inputSchema(schema).action(async ({ parsedInput, ctx }) => {
+        return {
+          id: parsedInput.id,
+          userId: ctx.userId,
+          userEmail: ctx.userEmail,
+        };
+      });
 
       const result = await action({ id: 'test-id' });
 
@@ -44,16 +42,14 @@ describe('helpers', () => {
       });
 
       const schema = z.object({ id: z.string() });
-      const action = client
-        .inputSchema(schema)
-        .action(async ({ parsedInput, ctx }) => {
-          return {
-            id: parsedInput.id,
-            userId: ctx.userId,
-            userEmail: ctx.userEmail,
-            authToken: ctx.authToken,
-          };
-        });
+      const action = client.inputSchema(schema).action(async ({ parsedInput, ctx }) => {
+        return {
+          id: parsedInput.id,
+          userId: ctx.userId,
+          userEmail: ctx.userEmail,
+          authToken: ctx.authToken,
+        };
+      });
 
       const result = await action({ id: 'test-id' });
 
@@ -75,15 +71,13 @@ describe('helpers', () => {
       });
 
       const schema = z.object({ id: z.string() });
-      const action = client
-        .inputSchema(schema)
-        .action(async ({ parsedInput, ctx }) => {
-          return {
-            id: parsedInput.id,
-            user: ctx.user,
-            userId: ctx.userId,
-          };
-        });
+      const action = client.inputSchema(schema).action(async ({ parsedInput, ctx }) => {
+        return {
+          id: parsedInput.id,
+          user: ctx.user,
+          userId: ctx.userId,
+        };
+      });
 
       const result = await action({ id: 'test-id' });
 
@@ -103,16 +97,14 @@ describe('helpers', () => {
       });
 
       const schema = z.object({ id: z.string() });
-      const action = client
-        .inputSchema(schema)
-        .action(async ({ parsedInput, ctx }) => {
-          return {
-            id: parsedInput.id,
-            user: ctx.user,
-            userId: ctx.userId,
-            userEmail: ctx.userEmail,
-          };
-        });
+      const action = client.inputSchema(schema).action(async ({ parsedInput, ctx }) => {
+        return {
+          id: parsedInput.id,
+          user: ctx.user,
+          userId: ctx.userId,
+          userEmail: ctx.userEmail,
+        };
+      });
 
       const result = await action({ id: 'test-id' });
 
@@ -246,6 +238,83 @@ describe('helpers', () => {
         },
       });
     });
+
+    it('should keep the clients separate with mutableUse', async () => {
+      const clients = createCompleteActionClient(z.object({ actionName: z.string() }), {
+        mutableUse: true,
+      });
+
+      const action = clients.actionClient.action(async ({ ctx }) => ctx);
+      const rateLimited = clients.rateLimitedAction
+        .metadata({ actionName: 'test' })
+        .action(async ({ ctx }) => ctx);
+
+      expect(new Set(Object.values(clients)).size).toBe(5);
+      expect((await action()).data).toEqual({});
+      expect((await rateLimited()).data).toEqual({});
+    });
+  });
+
+  describe('structured server errors', () => {
+    it('should carry the handleServerError shape through pre-configured clients', async () => {
+      const { authedAction } = createCompleteActionClient(z.object({ actionName: z.string() }), {
+        handleServerError: (error) => ({ code: 'ACTION_FAILED', message: error.message }),
+      });
+
+      const action = authedAction
+        .inputSchema(z.object({ id: z.string() }))
+        .metadata({ actionName: 'deleteItem' })
+        .action(async () => {
+          throw new Error('Permission denied');
+        });
+
+      const result = await action({ id: '1' });
+
+      expect(result.serverError?.code).toBe('ACTION_FAILED');
+      expect(result.serverError?.message).toBe('Permission denied');
+    });
   });
-});
 
+  describe('typed auth context', () => {
+    it('should type the context injected by auth middleware', async () => {
+      const action = createAuthedActionClient()
+        .inputSchema(z.object({ id: z.string() }))
+        .action(async ({ ctx }) => {
+          const userEmail: string = ctx.userEmail;
+          return { userEmail };
+        });
+
+      const result = await action({ id: '1' });
+
+      expect(result.data).toEqual({ userEmail: 'test@example.com' });
+    });
+
+    it('should type the user injected by optional auth middleware', async () => {
+      const { optionalAuthAction } = createCompleteActionClient(
+        z.object({ actionName: z.string() })
+      );
+
+      const action = optionalAuthAction
+        .inputSchema(z.object({ id: z.string() }))
+        .metadata({ actionName: 'getProfile' })
+        .action(async ({ ctx }) => ({ viewerId: ctx.user.id }));
+
+      const result = await action({ id: '1' });
+
+      expect(result.data).toEqual({ viewerId: 'test-user-id' });
+    });
+  });
+  describe('actions without input schema', () => {
+    it('should run authed actions without input', async () => {
+      const { authedAction } = createCompleteActionClient(z.object({ actionName: z.string() }));
+
+      const logout = authedAction
+        .metadata({ actionName: 'logout' })
+        .action(async ({ parsedInput, ctx }) => ({ parsedInput, userId: ctx.userId }));
+
+      const result = await logout();
+
+      expect(result.data).toEqual({ parsedInput: undefined, userId: 'test-user-id' });
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, expect, it, jest } from '@jest/globals';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { redirect } from 'next/navigation';
+import { z } from 'zod';
+import { createMockSafeActionClient } from '../src/client';
+import { useAction, useOptimisticAction, useStateAction } from '../src/hooks';
+
+const client = createMockSafeActionClient();
+
+const greet = client
+  .inputSchema(z.object({ name: z.string().min(1) }))
+  .action(async ({ parsedInput }) => ({ greeting: `Hello ${parsedInput.name}` }));
+
+describe('hooks', () => {
+  describe('useAction', () => {
+    it('should start idle', () => {
+      const { result } = renderHook(() => useAction(greet));
+
+      expect(result.current.status).toBe('idle');
+      expect(result.current.isIdle).toBe(true);
+      expect(result.current.result).toEqual({});
+      expect(result.current.input).toBeUndefined();
+    });
+
+    it('should execute the action and store its result', async () => {
+      const { result } = renderHook(() => useAction(greet));
+
+      act(() => result.current.execute({ name: 'Ada' }));
+
+      await waitFor(() => expect(result.current.hasSucceeded).toBe(true));
+      expect(result.current.status).toBe('hasSucceeded');
+      expect(result.current.result.data).toEqual({ greeting: 'Hello Ada' });
+      expect(result.current.input).toEqual({ name: 'Ada' });
+    });
+
+    it('should resolve executeAsync with the result', async () => {
+      const { result } = renderHook(() => useAction(greet));
+
+      let actionResult: Awaited<ReturnType<typeof greet>> | undefined;
+      await act(async () => {
+        actionResult = await result.current.executeAsync({ name: 'Ada' });
+      });
+
+      expect(actionResult?.data).toEqual({ greeting: 'Hello Ada' });
+      await waitFor(() => expect(result.current.status).toBe('hasSucceeded'));
+    });
+
+    it('should report validation errors as hasErrored', async () => {
+      const onError = jest.fn();
+      const onSettled = jest.fn();
+      const { result } = renderHook(() => useAction(greet, { onError, onSettled }));
+
+      act(() => result.current.execute({ name: '' }));
+
+      await waitFor(() => expect(result.current.hasErrored).toBe(true));
+      expect(result.current.result.validationErrors?.name?._errors).toBeDefined();
+      expect(onError).toHaveBeenCalledWith({
+        error: expect.objectContaining({ validationErrors: expect.any(Object) }),
+        input: { name: '' },
+      });
+      expect(onSettled).toHaveBeenCalledWith({
+        result: result.current.result,
+        input: { name: '' },
+      });
+    });
+
+    it('should run onExecute, onSuccess and onSettled', async () => {
+      const onExecute = jest.fn();
+      const onSuccess = jest.fn();
+      const onSettled = jest.fn();
+      const { result } = renderHook(() => useAction(greet, { onExecute, onSuccess, onSettled }));
+
+      act(() => result.current.execute({ name: 'Ada' }));
+
+      await waitFor(() => expect(onSuccess).toHaveBeenCalled());
+      expect(onExecute).toHaveBeenCalledWith({ input: { name: 'Ada' } });
+      expect(onSuccess).toHaveBeenCalledWith({
+        data: { greeting: 'Hello Ada' },
+        input: { name: 'Ada' },
+      });
+      expect(onSettled).toHaveBeenCalledWith({
+        result: { data: { greeting: 'Hello Ada' } },
+        input: { name: 'Ada' },
+      });
+    });
+
+    it('should report thrown errors through onError and reject executeAsync', async () => {
+      const onError = jest.fn();
+      const broken = async (): Promise<{ data?: never }> => {
+        throw new Error('Network error');
+      };
+      const { result } = renderHook(() => useAction(broken, { onError }));
+
+      await act(async () => {
+        await expect(result.current.executeAsync()).rejects.toThrow('Network error');
+      });
+
+      await waitFor(() => expect(result.current.hasErrored).toBe(true));
+      expect(onError).toHaveBeenCalledWith({
+        error: { thrownError: expect.any(Error) },
+        input: undefined,
+      });
+    });
+
+    it('should keep execute from rejecting on thrown errors', async () => {
+      const { result } = renderHook(() =>
+        useAction(async () => {
+          throw new Error('Network error');
+        })
+      );
+
+      act(() => result.current.execute());
+
+      await waitFor(() => expect(result.current.hasErrored).toBe(true));
+      expect(result.current.result).toEqual({});
+    });
+
+    it('should report navigation errors as hasNavigated', async () => {
+      const onNavigation = jest.fn();
+      const onSettled = jest.fn();
+      const action = client.action(async () => redirect('/posts/1'));
+      const { result } = renderHook(() => useAction(action, { onNavigation, onSettled }));
+
+      act(() => result.current.execute());
+
+      await waitFor(() => expect(result.current.hasNavigated).toBe(true));
+      await waitFor(() =>
+        expect(onNavigation).toHaveBeenCalledWith({ input: undefined, navigationKind: 'redirect' })
+      );
+      expect(onSettled).toHaveBeenCalledWith({
+        result: {},
+        input: undefined,
+        navigationKind: 'redirect',
+      });
+    });
+
+    it('should report recorded navigations as hasNavigated', async () => {
+      const onNavigation = jest.fn();
+      const action = createMockSafeActionClient({ navigationErrors: 'record' }).action(async () =>
+        redirect('/posts/1')
+      );
+      const { result } = renderHook(() => useAction(action, { onNavigation }));
+
+      act(() => result.current.execute());
+
+      await waitFor(() => expect(result.current.hasNavigated).toBe(true));
+      expect(result.current.result.navigation?.url).toBe('/posts/1');
+      expect(onNavigation).toHaveBeenCalledWith({ input: undefined, navigationKind: 'redirect' });
+    });
+
+    it('should go back to idle on reset', async () => {
+      const { result } = renderHook(() => useAction(greet));
+
+      act(() => result.current.execute({ name: 'Ada' }));
+      await waitFor(() => expect(result.current.hasSucceeded).toBe(true));
+      act(() => result.current.reset());
+
+      expect(result.current.status).toBe('idle');
+      expect(result.current.result).toEqual({});
+      expect(result.current.input).toBeUndefined();
+    });
+  });
+
+  describe('useOptimisticAction', () => {
+    const addTodo = client
+      .inputSchema(z.object({ title: z.string() }))
+      .action(async ({ parsedInput }) => ({ title: parsedInput.title }));
+
+    it('should expose the current state when idle', () => {
+      const { result } = renderHook(() =>
+        useOptimisticAction(addTodo, {
+          currentState: { todos: ['First'] },
+          updateFn: (state, input: { title: string }) => ({ todos: [...state.todos, input.title] }),
+        })
+      );
+
+      expect(result.current.optimisticState).toEqual({ todos: ['First'] });
+      expect(result.current.status).toBe('idle');
+    });
+
+    it('should show the optimistic state while the action runs', async () => {
+      let finish: () => void = () => {};
+      const slowAddTodo = client
+        .inputSchema(z.object({ title: z.string() }))
+        .action(async ({ parsedInput }) => {
+          await new Promise<void>((resolve) => {
+            finish = resolve;
+          });
+          return { title: parsedInput.title };
+        });
+      const { result } = renderHook(() =>
+        useOptimisticAction(slowAddTodo, {
+          currentState: { todos: ['First'] },
+          updateFn: (state, input: { title: string }) => ({ todos: [...state.todos, input.title] }),
+        })
+      );
+
+      act(() => result.current.execute({ title: 'Second' }));
+
+      await waitFor(() =>
+        expect(result.current.optimisticState).toEqual({ todos: ['First', 'Second'] })
+      );
+      expect(result.current.isPending).toBe(true);
+
+      await act(async () => finish());
+
+      await waitFor(() => expect(result.current.hasSucceeded).toBe(true));
+      expect(result.current.optimisticState).toEqual({ todos: ['First'] });
+    });
+
+    it('should run the action and return to the current state', async () => {
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() =>
+        useOptimisticAction(addTodo, {
+          currentState: { todos: ['First'] },
+          updateFn: (state, input: { title: string }) => ({ todos: [...state.todos, input.title] }),
+          onSuccess,
+        })
+      );
+
+      act(() => result.current.execute({ title: 'Second' }));
+
+      await waitFor(() => expect(result.current.hasSucceeded).toBe(true));
+      expect(result.current.result.data).toEqual({ title: 'Second' });
+      expect(result.current.optimisticState).toEqual({ todos: ['First'] });
+      expect(onSuccess).toHaveBeenCalledWith({
+        data: { title: 'Second' },
+        input: { title: 'Second' },
+      });
+    });
+  });
+
+  describe('useStateAction', () => {
+    const addTodo = client
+      .inputSchema(z.object({ title: z.string().min(1) }))
+      .stateAction<{ todos: string[] }>(async ({ parsedInput }, { prevResult }) => ({
+        todos: [...(prevResult.data?.todos ?? []), parsedInput.title],
+      }));
+
+    it('should start with the initial result', () => {
+      const { result } = renderHook(() =>
+        useStateAction(addTodo, { initResult: { data: { todos: ['First'] } } })
+      );
+
+      expect(result.current.status).toBe('idle');
+      expect(result.current.result).toEqual({ data: { todos: ['First'] } });
+    });
+
+    it('should pass the previous result to the action', async () => {
+      const onSuccess = jest.fn();
+      const { result } = renderHook(() =>
+        useStateAction(addTodo, { initResult: { data: { todos: ['First'] } }, onSuccess })
+      );
+
+      act(() => result.current.execute({ title: 'Second' }));
+
+      await waitFor(() => expect(result.current.hasSucceeded).toBe(true));
+      expect(result.current.result.data).toEqual({ todos: ['First', 'Second'] });
+      expect(result.current.input).toEqual({ title: 'Second' });
+      expect(onSuccess).toHaveBeenCalledWith({
+        data: { todos: ['First', 'Second'] },
+        input: { title: 'Second' },
+      });
+    });
+
+    it('should report validation errors as hasErrored', async () => {
+      const { result } = renderHook(() => useStateAction(addTodo));
+
+      act(() => result.current.execute({ title: '' }));
+
+      await waitFor(() => expect(result.current.hasErrored).toBe(true));
+      expect(result.current.result.fieldErrors?.title).toBeDefined();
+    });
+  });
+});
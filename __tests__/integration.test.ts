@@ -168,14 +168,12 @@ describe('integration', () => {
 
       const inputSchema = z.object({ value: z.number() });
 
-      const action = authedAction
-        .inputSchema(inputSchema)
-        .action(async ({ parsedInput, ctx }) => {
-          return {
-            value: parsedInput.value,
-            userId: ctx.userId,
-          };
-        });
+      const action = authedAction.inputSchema(inputSchema).action(async ({ parsedInput, ctx }) => {
+        return {
+          value: parsedInput.value,
+          userId: ctx.userId,
+        };
+      });
 
       const result = await action({ value: 42 });
 
@@ -191,7 +189,7 @@ describe('integration', () => {
       const executionOrder: string[] = [];
 
       // Add custom middleware
-      authedAction.use(async ({ next, ctx }) => {
+      const customAction = authedAction.use(async ({ next, ctx }) => {
         executionOrder.push('custom-middleware');
         // next-safe-action v8 API: next() accepts { ctx: ... }
         return next({ ctx: { ...ctx, custom: 'value' } });
@@ -199,7 +197,7 @@ describe('integration', () => {
 
       const inputSchema = z.object({ id: z.string() });
 
-      const action = authedAction
+      const action = customAction
         .inputSchema(inputSchema)
         .metadata({ actionName: 'test' })
         .action(async ({ parsedInput, ctx }) => {
@@ -279,9 +277,7 @@ describe('integration', () => {
     });
 
     it('should handle complex nested validation', async () => {
-      const { authedAction } = createCompleteActionClient(
-        z.object({ actionName: z.string() })
-      );
+      const { authedAction } = createCompleteActionClient(z.object({ actionName: z.string() }));
 
       const complexSchema = z.object({
         user: z.object({
@@ -336,4 +332,3 @@ describe('integration', () => {
     });
   });
 });
-
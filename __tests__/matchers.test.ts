@@ -0,0 +1,205 @@
+import { describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { createMockSafeActionClient } from '../src/client';
+import { safeActionMatchers } from '../src/jest-adapter';
+
+expect.extend(safeActionMatchers);
+
+describe('matchers', () => {
+  const client = createMockSafeActionClient({ isProduction: false });
+
+  describe('toBeActionSuccess', () => {
+    it('should pass for results without errors', async () => {
+      const action = client
+        .inputSchema(z.object({ title: z.string() }))
+        .action(async ({ parsedInput }) => ({ title: parsedInput.title }));
+
+      const result = await action({ title: 'Hello' });
+
+      expect(result).toBeActionSuccess();
+      expect(result).toBeActionSuccess({ title: 'Hello' });
+      expect(result).not.toBeActionSuccess({ title: 'Other' });
+      expect({}).toBeActionSuccess(undefined);
+    });
+
+    it('should fail with the errors of the result', () => {
+      expect(() => expect({ serverError: 'Boom' }).toBeActionSuccess()).toThrow(
+        /Expected no errors, received: {"serverError": "Boom"}/
+      );
+      expect(() =>
+        expect({ validationErrors: {}, bindArgsValidationErrors: [] }).toBeActionSuccess()
+      ).toThrow(/received: {"bindArgsValidationErrors": \[\], "validationErrors": {}}/);
+      expect(() => expect({ data: { id: '1' } }).not.toBeActionSuccess()).toThrow(
+        /Expected the action to fail/
+      );
+    });
+
+    it('should show a diff when the data differs', () => {
+      expect(() => expect({ data: { id: '1' } }).toBeActionSuccess({ id: '2' })).toThrow(
+        /- Expected[\s\S]*"id": "2"[\s\S]*"id": "1"/
+      );
+      expect(() => expect({}).toBeActionSuccess(expect.anything())).toThrow(
+        /Expected data: Anything\nReceived data: undefined/
+      );
+    });
+  });
+
+  describe('toHaveServerError', () => {
+    it('should pass for results with a serverError', async () => {
+      const action = client.action(async () => {
+        throw new Error('Database error');
+      });
+
+      const result = await action();
+
+      expect(result).toHaveServerError();
+      expect(result).toHaveServerError('Database error');
+      expect(result).not.toHaveServerError('Other error');
+      expect({ data: {} }).not.toHaveServerError();
+    });
+
+    it('should compare custom server errors by value', () => {
+      expect({ serverError: { code: 500 } }).toHaveServerError({ code: 500 });
+      expect({ serverError: { code: 500 } }).toHaveServerError(expect.objectContaining({}));
+    });
+
+    it('should describe the received serverError', () => {
+      expect(() => expect({}).toHaveServerError('Boom')).toThrow(
+        /Expected: "Boom"\nReceived serverError: undefined/
+      );
+      expect(() => expect({ serverError: 'Boom' }).not.toHaveServerError('Boom')).toThrow(
+        /Expected: not "Boom"/
+      );
+      expect(() => expect({ serverError: 'Boom' }).toHaveServerError('Other')).toThrow(
+        /- Expected\n\+ Received\n\n- Other\n\+ Boom/
+      );
+      expect(() =>
+        expect({ serverError: 'Boom' }).toHaveServerError(expect.stringContaining('Other'))
+      ).toThrow(/Expected: StringContaining "Other"\nReceived serverError: "Boom"/);
+    });
+  });
+
+  describe('toHaveValidationError', () => {
+    const action = client
+      .inputSchema(
+        z.object({
+          title: z.string().min(1, 'Title is required'),
+          author: z.object({ email: z.string().email('Invalid email') }),
+        })
+      )
+      .action(async ({ parsedInput }) => parsedInput);
+
+    it('should find errors in formatted validation errors', async () => {
+      const result = await action({ title: '', author: { email: 'invalid' } });
+
+      expect(result).toHaveValidationError('title');
+      expect(result).toHaveValidationError('title', 'Title is required');
+      expect(result).toHaveValidationError('author.email', /email/);
+      expect(result).not.toHaveValidationError('title', 'Other message');
+      expect(result).not.toHaveValidationError('author.name');
+    });
+
+    it('should find errors in flattened validation errors', async () => {
+      const flattenedClient = createMockSafeActionClient({
+        defaultValidationErrorsShape: 'flattened',
+      });
+      const flattenedAction = flattenedClient
+        .inputSchema(z.object({ title: z.string().min(1, 'Title is required') }))
+        .action(async ({ parsedInput }) => parsedInput);
+
+      expect(await flattenedAction({ title: '' })).toHaveValidationError(
+        'title',
+        'Title is required'
+      );
+    });
+
+    it('should find root, nested and output validation errors', () => {
+      expect({
+        validationErrors: { author: { email: { _errors: ['Invalid email'] } } },
+      }).toHaveValidationError('author.email', 'Invalid email');
+      expect({ validationErrors: { _errors: ['Form error'] } }).toHaveValidationError(
+        '',
+        'Form error'
+      );
+      expect({ validationErrors: { 'user.id': ['Invalid id'] } }).toHaveValidationError(
+        'user.id',
+        'Invalid id'
+      );
+    });
+
+    it('should list the received messages', () => {
+      expect(() =>
+        expect({ validationErrors: { title: { _errors: ['Too short'] } } }).toHaveValidationError(
+          'title',
+          'Title is required'
+        )
+      ).toThrow(
+        /Path: "title"\nExpected message: "Title is required"\nReceived messages: \["Too short"\]/
+      );
+      expect(() => expect({}).toHaveValidationError('title')).toThrow(
+        /Received validationErrors: undefined/
+      );
+      expect(() =>
+        expect({ fieldErrors: { title: ['Too short'] } }).not.toHaveValidationError(
+          'title',
+          'Too short'
+        )
+      ).toThrow(/Expected message: not "Too short"/);
+    });
+  });
+
+  describe('toHaveBindArgsValidationError', () => {
+    const action = client
+      .inputSchema(z.object({}))
+      .bindArgsSchemas([z.string().uuid('Invalid id'), z.number().int('Invalid version')])
+      .action(async () => ({ ok: true }));
+
+    it('should pass for results with bound argument errors', async () => {
+      const result = await action('not-a-uuid', 2, {});
+
+      expect(result).toHaveBindArgsValidationError();
+      expect(result).toHaveBindArgsValidationError(0);
+      expect(result).toHaveBindArgsValidationError(0, 'Invalid id');
+      expect(result).toHaveBindArgsValidationError(undefined, /id/);
+      expect(result).not.toHaveBindArgsValidationError(1);
+      expect(
+        await action('123e4567-e89b-12d3-a456-426614174000', 2, {})
+      ).not.toHaveBindArgsValidationError();
+    });
+
+    it('should find messages in flattened and nested errors', () => {
+      const result = {
+        bindArgsValidationErrors: [
+          { formErrors: [], fieldErrors: { id: ['Invalid id'] } },
+          { author: { email: { _errors: ['Invalid email'] } } },
+        ],
+      };
+
+      expect(result).toHaveBindArgsValidationError(0, 'Invalid id');
+      expect(result).toHaveBindArgsValidationError(1, 'Invalid email');
+      expect({
+        bindArgsValidationErrors: [{ formErrors: [], fieldErrors: {} }],
+      }).not.toHaveBindArgsValidationError(0);
+    });
+
+    it('should describe the expected argument', () => {
+      const result = { bindArgsValidationErrors: [{}, { _errors: ['Invalid version'] }] };
+
+      expect(() => expect(result).toHaveBindArgsValidationError(0, 'Invalid version')).toThrow(
+        /Bound argument: 0\nExpected message: "Invalid version"\nReceived bindArgsValidationErrors/
+      );
+      expect(() => expect(result).not.toHaveBindArgsValidationError(1, /version/)).toThrow(
+        /Expected message: not \/version\//
+      );
+    });
+  });
+
+  it('should fail for values that are not results, even with .not', () => {
+    expect(() => expect(undefined).toBeActionSuccess()).toThrow(
+      /Expected a SafeActionResult object, received: undefined/
+    );
+    expect(() => expect(null).not.toHaveServerError()).toThrow(/received: null/);
+    expect(() => expect('error').toHaveValidationError('')).toThrow(/received: "error"/);
+    expect(() => expect(42).not.toHaveBindArgsValidationError()).toThrow(/received: 42/);
+  });
+});
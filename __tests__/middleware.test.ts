@@ -1,17 +1,21 @@
 import { describe, expect, it } from '@jest/globals';
 import { z } from 'zod';
+import { z as z3 } from 'zod/v3';
 import {
   createAuthedMiddleware,
   createOptionalAuthMiddleware,
   createMetadataValidationMiddleware,
   createRateLimitMiddleware,
+  createErrorHandlingMiddleware,
+  createMiddleware,
 } from '../src/middleware';
-import type { MockSafeActionClientConfig } from '../src/types';
+import { createMockSafeActionClient } from '../src/client';
+import type { MiddlewareNext, ResolvedMockSafeActionClientConfig } from '../src/types';
 
 describe('middleware', () => {
   describe('createAuthedMiddleware', () => {
     it('should inject user context when auth is enabled', async () => {
-      const config: Required<MockSafeActionClientConfig> = {
+      const config: ResolvedMockSafeActionClientConfig = {
         defaultServerError: 'Error',
         isProduction: false,
         auth: {
@@ -42,7 +46,7 @@ describe('middleware', () => {
     });
 
     it('should not inject user context when auth is disabled', async () => {
-      const config: Required<MockSafeActionClientConfig> = {
+      const config: ResolvedMockSafeActionClientConfig = {
         defaultServerError: 'Error',
         isProduction: false,
         auth: {
@@ -70,7 +74,7 @@ describe('middleware', () => {
     });
 
     it('should merge with existing context', async () => {
-      const config: Required<MockSafeActionClientConfig> = {
+      const config: ResolvedMockSafeActionClientConfig = {
         defaultServerError: 'Error',
         isProduction: false,
         auth: {
@@ -105,7 +109,7 @@ describe('middleware', () => {
 
   describe('createOptionalAuthMiddleware', () => {
     it('should inject user context with user object when auth is enabled', async () => {
-      const config: Required<MockSafeActionClientConfig> = {
+      const config: ResolvedMockSafeActionClientConfig = {
         defaultServerError: 'Error',
         isProduction: false,
         auth: {
@@ -137,7 +141,7 @@ describe('middleware', () => {
     });
 
     it('should not inject user context when auth is disabled', async () => {
-      const config: Required<MockSafeActionClientConfig> = {
+      const config: ResolvedMockSafeActionClientConfig = {
         defaultServerError: 'Error',
         isProduction: false,
         auth: {
@@ -286,5 +290,102 @@ describe('middleware', () => {
       ).rejects.toThrow('Non-Zod error');
     });
   });
-});
 
+  describe('createErrorHandlingMiddleware', () => {
+    const config: ResolvedMockSafeActionClientConfig = {
+      defaultServerError: 'Error',
+      isProduction: false,
+      auth: {
+        enabled: true,
+        testUserId: 'user-123',
+        testUserEmail: 'user@example.com',
+        testAuthToken: 'token-123',
+      },
+    };
+
+    it('should return the result of next()', async () => {
+      const middleware = createErrorHandlingMiddleware(config);
+      const nextResult = { success: true, data: 'done' };
+
+      const result = await middleware({
+        next: async () => nextResult,
+        ctx: { existing: 'value' },
+      });
+
+      expect(result).toBe(nextResult);
+    });
+
+    it('should re-throw errors thrown by next()', async () => {
+      const middleware = createErrorHandlingMiddleware(config);
+
+      await expect(
+        middleware({
+          next: async () => {
+            throw new Error('Next failed');
+          },
+          ctx: {},
+        })
+      ).rejects.toThrow('Next failed');
+    });
+  });
+  describe('Zod v3 metadata schemas', () => {
+    it('should reject invalid metadata with a Zod v3 schema', async () => {
+      const middleware = createMetadataValidationMiddleware(z3.object({ actionName: z3.string() }));
+
+      await expect(
+        middleware({
+          next: async () => ({ success: true }),
+          metadata: { invalid: 'data' },
+        })
+      ).rejects.toThrow('Invalid action metadata');
+    });
+
+    it('should reject invalid rate limit metadata with a Zod v3 schema', async () => {
+      const middleware = createRateLimitMiddleware(z3.object({ actionName: z3.string() }));
+
+      await expect(
+        middleware({
+          next: async () => ({ success: true }),
+          metadata: { invalid: 'data' },
+        })
+      ).rejects.toThrow('Invalid action configuration');
+    });
+  });
+  describe('createMiddleware', () => {
+    it('should return the defined middleware', () => {
+      const middleware = async ({ next }: { next: MiddlewareNext }) => next();
+
+      expect(createMiddleware().define(middleware)).toBe(middleware);
+    });
+
+    it('should type the required ctx and metadata', async () => {
+      type Meta = { actionName: string };
+      const requireAdmin = createMiddleware<{ ctx: { userId: string }; metadata: Meta }>().define(
+        async ({ next, ctx, metadata }) =>
+          next({ ctx: { isAdmin: ctx.userId === 'admin', actionName: metadata?.actionName } })
+      );
+
+      const action = createMockSafeActionClient<string, Meta>()
+        .use(async ({ next }) => next({ ctx: { userId: 'admin' } }))
+        .use(requireAdmin)
+        .metadata({ actionName: 'deletePost' })
+        .action(async ({ ctx }) => ({ isAdmin: ctx.isAdmin, actionName: ctx.actionName }));
+
+      const result = await action();
+
+      expect(result.data).toEqual({ isAdmin: true, actionName: 'deletePost' });
+    });
+
+    it('should only be accepted by clients providing the required ctx', () => {
+      const requireUser = createMiddleware<{ ctx: { userId: string } }>().define(
+        async ({ next, ctx }) => next({ ctx: { user: ctx.userId } })
+      );
+
+      // @ts-expect-error - the client doesn't provide userId
+      createMockSafeActionClient().use(requireUser);
+      createMockSafeActionClient()
+        .use(async ({ next }) => next({ ctx: { userId: 'u1' } }))
+        .use(requireUser);
+    });
+  });
+});
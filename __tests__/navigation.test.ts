@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import { notFound, permanentRedirect, redirect, RedirectType } from 'next/navigation';
+import { getNavigationKind, getNavigationOutcome, isNavigationError } from '../src/navigation';
+
+/**
+ * Returns the error thrown by a navigation function
+ */
+function catchError(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected function to throw');
+}
+
+function digestError(digest: string): Error & { digest: string } {
+  return Object.assign(new Error(digest), { digest });
+}
+
+describe('navigation', () => {
+  describe('isNavigationError', () => {
+    it('should recognize redirect() and notFound() errors', () => {
+      expect(isNavigationError(catchError(() => redirect('/posts/1')))).toBe(true);
+      expect(isNavigationError(catchError(() => permanentRedirect('/posts/1')))).toBe(true);
+      expect(isNavigationError(catchError(() => notFound()))).toBe(true);
+    });
+
+    it('should recognize forbidden/unauthorized, legacy notFound and framework errors', () => {
+      expect(isNavigationError(digestError('NEXT_HTTP_ERROR_FALLBACK;403'))).toBe(true);
+      expect(isNavigationError(digestError('NEXT_HTTP_ERROR_FALLBACK;401'))).toBe(true);
+      expect(isNavigationError(digestError('NEXT_NOT_FOUND'))).toBe(true);
+      expect(isNavigationError(digestError('DYNAMIC_SERVER_USAGE'))).toBe(true);
+    });
+
+    it('should not recognize other errors', () => {
+      expect(isNavigationError(new Error('Database error'))).toBe(false);
+      expect(isNavigationError(digestError('SOME_OTHER_DIGEST'))).toBe(false);
+      expect(isNavigationError({ digest: 42 })).toBe(false);
+      expect(isNavigationError('NEXT_REDIRECT')).toBe(false);
+      expect(isNavigationError(null)).toBe(false);
+    });
+  });
+
+  describe('getNavigationKind', () => {
+    it('should return the kind of navigation', () => {
+      expect(getNavigationKind(catchError(() => redirect('/posts/1')))).toBe('redirect');
+      expect(getNavigationKind(catchError(() => notFound()))).toBe('notFound');
+      expect(getNavigationKind(digestError('NEXT_NOT_FOUND'))).toBe('notFound');
+      expect(getNavigationKind(digestError('NEXT_HTTP_ERROR_FALLBACK;403'))).toBe('forbidden');
+      expect(getNavigationKind(digestError('NEXT_HTTP_ERROR_FALLBACK;401'))).toBe('unauthorized');
+    });
+
+    it('should return other for remaining framework errors', () => {
+      expect(getNavigationKind(digestError('NEXT_HTTP_ERROR_FALLBACK;418'))).toBe('other');
+      expect(getNavigationKind(digestError('DYNAMIC_SERVER_USAGE'))).toBe('other');
+      expect(getNavigationKind(new Error('Not a navigation error'))).toBe('other');
+    });
+  });
+
+  describe('getNavigationOutcome', () => {
+    it('should expose the redirect target', () => {
+      expect(getNavigationOutcome(catchError(() => redirect('/posts/1')))).toEqual({
+        kind: 'redirect',
+        url: '/posts/1',
+        redirectType: 'replace',
+        statusCode: 307,
+      });
+    });
+
+    it('should expose the redirect type and permanent status code', () => {
+      expect(getNavigationOutcome(catchError(() => redirect('/login', RedirectType.push)))).toEqual(
+        {
+          kind: 'redirect',
+          url: '/login',
+          redirectType: 'push',
+          statusCode: 307,
+        }
+      );
+      expect(getNavigationOutcome(catchError(() => permanentRedirect('/new')))).toMatchObject({
+        url: '/new',
+        statusCode: 308,
+      });
+    });
+
+    it('should keep semicolons in the redirect url', () => {
+      expect(
+        getNavigationOutcome(digestError('NEXT_REDIRECT;replace;/a;b?c=1;307;'))
+      ).toMatchObject({
+        url: '/a;b?c=1',
+      });
+    });
+
+    it('should only return the kind for other navigation errors', () => {
+      expect(getNavigationOutcome(catchError(() => notFound()))).toEqual({ kind: 'notFound' });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, beforeAll, describe, expect, it } from '@jest/globals';
+import { execFileSync } from 'child_process';
+import { join } from 'path';
+import { z } from 'zod';
+import * as errors from '../src/errors';
+import {
+  ActionBindArgsValidationError,
+  ActionMetadataValidationError,
+  ActionOutputDataValidationError,
+  ActionValidationError,
+  DEFAULT_SERVER_ERROR_MESSAGE,
+  createMiddleware,
+  createSafeActionClient,
+  flattenValidationErrors,
+  formatValidationErrors,
+  returnValidationErrors,
+  setupSafeActionMock,
+} from '../src/next-safe-action';
+
+describe('next-safe-action', () => {
+  afterEach(() => {
+    setupSafeActionMock();
+  });
+
+  describe('createSafeActionClient', () => {
+    it('should create a working client', async () => {
+      const action = createSafeActionClient()
+        .inputSchema(z.object({ id: z.string() }))
+        .action(async ({ parsedInput }) => ({ id: parsedInput.id }));
+
+      const result = await action({ id: '1' });
+
+      expect(result.data).toEqual({ id: '1' });
+    });
+
+    it('should return DEFAULT_SERVER_ERROR_MESSAGE for unhandled errors', async () => {
+      const action = createSafeActionClient().action(async () => {
+        throw new Error('Database error');
+      });
+
+      const result = await action();
+
+      expect(result.serverError).toBe(DEFAULT_SERVER_ERROR_MESSAGE);
+    });
+
+    it('should use handleServerError', async () => {
+      const action = createSafeActionClient({
+        handleServerError: (error) => ({ message: error.message }),
+      }).action(async () => {
+        throw new Error('Database error');
+      });
+
+      const result = await action();
+
+      expect(result.serverError).toEqual({ message: 'Database error' });
+    });
+
+    it('should await an async handleServerError', async () => {
+      const action = createSafeActionClient({
+        handleServerError: async (error) => ({ message: error.message }),
+      }).action(async () => {
+        throw new Error('Database error');
+      });
+
+      const result = await action();
+
+      expect(result.serverError).toEqual({ message: 'Database error' });
+    });
+
+    it('should validate metadata with defineMetadataSchema', async () => {
+      const client = createSafeActionClient({
+        defineMetadataSchema: () => z.object({ actionName: z.string() }),
+      });
+
+      const action = client
+        .metadata({ actionName: 'getUser' })
+        .action(async ({ ctx }) => ({ ctx }));
+      const missing = client.action(async () => ({}));
+
+      expect((await action()).data).toEqual({ ctx: {} });
+      expect((await missing()).serverError).toBe(DEFAULT_SERVER_ERROR_MESSAGE);
+    });
+
+    it('should apply defaultValidationErrorsShape and throwValidationErrors', async () => {
+      const schema = z.object({ email: z.string().email() });
+      const flattened = createSafeActionClient({ defaultValidationErrorsShape: 'flattened' })
+        .inputSchema(schema)
+        .action(async ({ parsedInput }) => parsedInput);
+      const throwing = createSafeActionClient({ throwValidationErrors: true })
+        .inputSchema(schema)
+        .action(async ({ parsedInput }) => parsedInput);
+
+      const result = await flattened({ email: 'invalid' });
+
+      expect(result.validationErrors).toEqual({
+        formErrors: [],
+        fieldErrors: { email: [expect.any(String)] },
+      });
+      await expect(throwing({ email: 'invalid' })).rejects.toThrow(ActionValidationError);
+    });
+  });
+
+  describe('setupSafeActionMock', () => {
+    it('should configure clients created afterwards', async () => {
+      setupSafeActionMock({ isProduction: false, defaultServerError: 'Oops' });
+
+      const action = createSafeActionClient().action(async () => {
+        throw new Error('Database error');
+      });
+
+      expect((await action()).serverError).toBe('Database error');
+    });
+
+    it('should let createSafeActionClient options win', async () => {
+      setupSafeActionMock({ handleServerError: () => 'From setup' });
+
+      const action = createSafeActionClient({ handleServerError: () => 'From client' }).action(
+        async () => {
+          throw new Error('Database error');
+        }
+      );
+
+      expect((await action()).serverError).toBe('From client');
+    });
+
+    it('should go back to the defaults without arguments', async () => {
+      setupSafeActionMock({ defaultServerError: 'Oops' });
+      setupSafeActionMock();
+
+      const action = createSafeActionClient().action(async () => {
+        throw 'not an error';
+      });
+
+      expect((await action()).serverError).toBe(DEFAULT_SERVER_ERROR_MESSAGE);
+    });
+  });
+
+  describe('createMiddleware', () => {
+    it('should define middleware for client.use()', async () => {
+      const withUser = createMiddleware().define(async ({ next }) =>
+        next({ ctx: { userId: 'u1' } })
+      );
+
+      const action = createSafeActionClient()
+        .use(withUser)
+        .action(async ({ ctx }) => ({ userId: ctx.userId }));
+
+      expect((await action()).data).toEqual({ userId: 'u1' });
+    });
+  });
+
+  describe('validation errors utilities', () => {
+    it('should return validation errors from the handler', async () => {
+      const schema = z.object({ email: z.string() });
+      const action = createSafeActionClient()
+        .inputSchema(schema)
+        .action(async () => {
+          returnValidationErrors(schema, { email: { _errors: ['Email already taken'] } });
+        });
+
+      const result = await action({ email: 'taken@example.com' });
+
+      expect(result.validationErrors).toEqual({ email: { _errors: ['Email already taken'] } });
+    });
+
+    it('should export the error classes', () => {
+      expect(ActionValidationError).toBe(errors.ActionValidationError);
+      expect(ActionMetadataValidationError).toBe(errors.ActionMetadataValidationError);
+      expect(ActionBindArgsValidationError).toBe(errors.ActionBindArgsValidationError);
+      expect(ActionOutputDataValidationError).toBe(errors.ActionOutputDataValidationError);
+    });
+
+    it('should export the validation errors formatters', () => {
+      const validationErrors = { _errors: ['Form error'], email: { _errors: ['Invalid email'] } };
+
+      expect(formatValidationErrors(validationErrors)).toBe(validationErrors);
+      expect(flattenValidationErrors(validationErrors)).toEqual({
+        formErrors: ['Form error'],
+        fieldErrors: { email: ['Invalid email'] },
+      });
+    });
+  });
+
+  describe('built entries', () => {
+    // Each tsup entry bundles its own copy of the error classes
+    const outDir = join(__dirname, '../node_modules/.cache/safemocker-build');
+    let index: typeof import('../src/index');
+    let nextSafeAction: typeof import('../src/next-safe-action');
+
+    beforeAll(() => {
+      execFileSync(
+        join(__dirname, '../node_modules/.bin/tsup'),
+        ['--out-dir', outDir, '--silent'],
+        {
+          cwd: join(__dirname, '..'),
+        }
+      );
+      index = require(join(outDir, 'index.cjs'));
+      nextSafeAction = require(join(outDir, 'next-safe-action.cjs'));
+    }, 120000);
+
+    it('should report returnValidationErrors() from another entry as validation errors', async () => {
+      const schema = z.object({ email: z.string() });
+      const action = index
+        .createMockSafeActionClient()
+        .inputSchema(schema)
+        .action(async () =>
+          nextSafeAction.returnValidationErrors(schema, {
+            email: { _errors: ['Email already taken'] },
+          })
+        );
+
+      expect(nextSafeAction.ActionValidationError).not.toBe(index.ActionValidationError);
+      expect(await action({ email: 'taken@example.com' })).toEqual({
+        validationErrors: { email: { _errors: ['Email already taken'] } },
+        fieldErrors: { email: ['Email already taken'] },
+      });
+    });
+
+    it('should match the error classes of another entry with instanceof', async () => {
+      const action = nextSafeAction
+        .createSafeActionClient({ throwValidationErrors: true })
+        .inputSchema(z.object({ email: z.string().email() }))
+        .action(async ({ parsedInput }) => parsedInput);
+
+      await expect(action({ email: 'invalid' })).rejects.toBeInstanceOf(
+        index.ActionValidationError
+      );
+      expect(new index.ActionOutputDataValidationError({})).toBeInstanceOf(
+        nextSafeAction.ActionOutputDataValidationError
+      );
+    });
+  });
+});
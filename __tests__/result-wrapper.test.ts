@@ -1,5 +1,11 @@
 import { describe, expect, it } from '@jest/globals';
-import { wrapResult, wrapError, wrapValidationErrors } from '../src/result-wrapper';
+import {
+  wrapResult,
+  wrapError,
+  wrapServerError,
+  wrapValidationErrors,
+  wrapBindArgsValidationErrors,
+} from '../src/result-wrapper';
 import type { SafeActionResult } from '../src/types';
 
 describe('result-wrapper', () => {
@@ -122,5 +128,28 @@ describe('result-wrapper', () => {
       });
     });
   });
-});
 
+  describe('wrapBindArgsValidationErrors', () => {
+    it('should wrap bound argument errors in SafeActionResult structure', () => {
+      const bindArgsValidationErrors = [{ _errors: ['Invalid UUID'] }, {}];
+      const result = wrapBindArgsValidationErrors(bindArgsValidationErrors);
+
+      expect(result).toEqual({ bindArgsValidationErrors });
+      expect(result.data).toBeUndefined();
+      expect(result.serverError).toBeUndefined();
+      expect(result.fieldErrors).toBeUndefined();
+      expect(result.validationErrors).toBeUndefined();
+    });
+  });
+
+  describe('wrapServerError', () => {
+    it('should keep custom server error shapes as-is', () => {
+      const serverError = { code: 'NOT_FOUND', message: 'Item not found' };
+      const result = wrapServerError(serverError);
+
+      expect(result).toEqual({ serverError });
+      expect(result.serverError).toBe(serverError);
+      expect(result.data).toBeUndefined();
+    });
+  });
+});
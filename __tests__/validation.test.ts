@@ -1,18 +1,28 @@
 import { describe, expect, it } from '@jest/globals';
 import { z } from 'zod';
-import { validateInput, validateOutput } from '../src/validation';
-import type { SafeActionResult } from '../src/types';
+import { z as z3 } from 'zod/v3';
+import {
+  validateInput,
+  validateBindArgs,
+  validateOutput,
+  validateMetadata,
+  validationErrorsToFieldErrors,
+  formatValidationErrors,
+  flattenValidationErrors,
+} from '../src/validation';
+import { ActionMetadataValidationError } from '../src/errors';
+import type { SafeActionResult, StandardSchemaV1 } from '../src/types';
 
 describe('validation', () => {
   describe('validateInput', () => {
-    it('should validate valid input against schema', () => {
+    it('should validate valid input against schema', async () => {
       const schema = z.object({
         name: z.string().min(1),
         age: z.number().int().positive(),
       });
 
       const input = { name: 'John', age: 30 };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(true);
       if (result.success) {
@@ -20,14 +30,14 @@ describe('validation', () => {
       }
     });
 
-    it('should return validation errors for invalid input', () => {
+    it('should return validation errors for invalid input', async () => {
       const schema = z.object({
         email: z.string().email(),
         password: z.string().min(8),
       });
 
       const input = { email: 'invalid-email', password: 'short' };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -39,7 +49,38 @@ describe('validation', () => {
       }
     });
 
-    it('should handle nested validation errors', () => {
+    it('should return formatted validationErrors alongside fieldErrors', async () => {
+      const schema = z.object({
+        email: z.string().email(),
+        profile: z.object({ name: z.string().min(1) }),
+      });
+
+      const result = await validateInput({ email: 'invalid', profile: { name: '' } }, schema);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.validationErrors).toEqual({
+          email: { _errors: [expect.any(String)] },
+          profile: { name: { _errors: [expect.any(String)] } },
+        });
+      }
+    });
+
+    it('should collect root level issues in _errors', async () => {
+      const schema = z
+        .object({ password: z.string(), confirm: z.string() })
+        .refine((value) => value.password === value.confirm, { message: 'Passwords do not match' });
+
+      const result = await validateInput({ password: 'a', confirm: 'b' }, schema);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.validationErrors).toEqual({ _errors: ['Passwords do not match'] });
+        expect(result.result.fieldErrors).toEqual({ '': ['Passwords do not match'] });
+      }
+    });
+
+    it('should handle nested validation errors', async () => {
       const schema = z.object({
         user: z.object({
           email: z.string().email(),
@@ -50,7 +91,7 @@ describe('validation', () => {
       });
 
       const input = { user: { email: 'invalid', profile: { name: '' } } };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -60,13 +101,13 @@ describe('validation', () => {
       }
     });
 
-    it('should handle array validation errors', () => {
+    it('should handle array validation errors', async () => {
       const schema = z.object({
         tags: z.array(z.string().min(1)).min(1),
       });
 
       const input = { tags: [] };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -75,14 +116,14 @@ describe('validation', () => {
       }
     });
 
-    it('should handle optional fields', () => {
+    it('should handle optional fields', async () => {
       const schema = z.object({
         name: z.string(),
         email: z.string().email().optional(),
       });
 
       const input = { name: 'John' };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(true);
       if (result.success) {
@@ -90,28 +131,28 @@ describe('validation', () => {
       }
     });
 
-    it('should handle union types', () => {
+    it('should handle union types', async () => {
       const schema = z.union([
         z.object({ type: z.literal('user'), name: z.string() }),
         z.object({ type: z.literal('admin'), role: z.string() }),
       ]);
 
       const validInput = { type: 'user', name: 'John' };
-      const validResult = validateInput(validInput, schema);
+      const validResult = await validateInput(validInput, schema);
       expect(validResult.success).toBe(true);
 
       const invalidInput = { type: 'user' };
-      const invalidResult = validateInput(invalidInput, schema);
+      const invalidResult = await validateInput(invalidInput, schema);
       expect(invalidResult.success).toBe(false);
     });
 
-    it('should aggregate multiple errors for same field', () => {
+    it('should aggregate multiple errors for same field', async () => {
       const schema = z.object({
         password: z.string().min(8).regex(/[A-Z]/).regex(/[0-9]/),
       });
 
       const input = { password: 'short' };
-      const result = validateInput(input, schema);
+      const result = await validateInput(input, schema);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -121,31 +162,29 @@ describe('validation', () => {
       }
     });
 
-    it('should throw non-Zod errors', () => {
+    it('should throw non-Zod errors', async () => {
       const schema = z.string();
-      
+
       // Create a schema that will throw a non-Zod error
       const throwingSchema = {
-        parse: () => {
+        parseAsync: async () => {
           throw new Error('Non-Zod error');
         },
       } as unknown as z.ZodType;
 
-      expect(() => {
-        validateInput('test', throwingSchema);
-      }).toThrow('Non-Zod error');
+      await expect(validateInput('test', throwingSchema)).rejects.toThrow('Non-Zod error');
     });
   });
 
   describe('validateOutput', () => {
-    it('should validate valid output against schema', () => {
+    it('should validate valid output against schema', async () => {
       const schema = z.object({
         id: z.string(),
         name: z.string(),
       });
 
       const output = { id: '123', name: 'Test' };
-      const result = validateOutput(output, schema);
+      const result = await validateOutput(output, schema);
 
       expect(result.success).toBe(true);
       if (result.success) {
@@ -153,14 +192,14 @@ describe('validation', () => {
       }
     });
 
-    it('should return validation errors for invalid output', () => {
+    it('should return validation errors for invalid output', async () => {
       const schema = z.object({
         id: z.string(),
         count: z.number().positive(),
       });
 
       const output = { id: '123', count: -1 };
-      const result = validateOutput(output, schema);
+      const result = await validateOutput(output, schema);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -172,17 +211,305 @@ describe('validation', () => {
       }
     });
 
-    it('should throw non-Zod errors', () => {
+    it('should throw non-Zod errors', async () => {
       const throwingSchema = {
-        parse: () => {
+        parseAsync: async () => {
           throw new Error('Non-Zod error');
         },
       } as unknown as z.ZodType;
 
-      expect(() => {
-        validateOutput({ test: 'value' }, throwingSchema);
-      }).toThrow('Non-Zod error');
+      await expect(validateOutput({ test: 'value' }, throwingSchema)).rejects.toThrow(
+        'Non-Zod error'
+      );
     });
   });
-});
 
+  describe('validateBindArgs', () => {
+    it('should return parsed bound arguments when all are valid', async () => {
+      const result = await validateBindArgs(
+        ['42', 'draft'],
+        [z.coerce.number(), z.enum(['draft', 'published'])]
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual([42, 'draft']);
+      }
+    });
+
+    it('should return one error entry per bound argument', async () => {
+      const result = await validateBindArgs(
+        ['not-a-uuid', { id: 1 }],
+        [z.string().uuid(), z.object({ id: z.number() })]
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.bindArgsValidationErrors).toHaveLength(2);
+        expect(result.result.bindArgsValidationErrors?.[0]?._errors).toBeDefined();
+        expect(result.result.bindArgsValidationErrors?.[1]).toEqual({});
+        expect(result.result.fieldErrors).toBeUndefined();
+      }
+    });
+
+    it('should return flattened errors with the flattened shape', async () => {
+      const result = await validateBindArgs(
+        ['not-a-uuid', { id: 'a' }],
+        [z.string().uuid('Invalid UUID'), z.object({ id: z.number({ message: 'Invalid id' }) })],
+        'flattened'
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.bindArgsValidationErrors).toEqual([
+          { formErrors: ['Invalid UUID'], fieldErrors: {} },
+          { formErrors: [], fieldErrors: { id: ['Invalid id'] } },
+        ]);
+      }
+    });
+
+    it('should throw non-Zod errors', async () => {
+      const throwingSchema = {
+        parseAsync: async () => {
+          throw new Error('Non-Zod error');
+        },
+      } as unknown as z.ZodType;
+
+      await expect(validateBindArgs(['value'], [throwingSchema])).rejects.toThrow('Non-Zod error');
+    });
+  });
+
+  describe('validationErrorsToFieldErrors', () => {
+    it('should convert formatted errors to dotted field paths', () => {
+      const fieldErrors = validationErrorsToFieldErrors({
+        _errors: ['Form is invalid'],
+        email: { _errors: ['Email already taken'] },
+        profile: { name: { _errors: ['Name is reserved', 'Name is too common'] } },
+      });
+
+      expect(fieldErrors).toEqual({
+        '': ['Form is invalid'],
+        email: ['Email already taken'],
+        'profile.name': ['Name is reserved', 'Name is too common'],
+      });
+    });
+
+    it('should skip empty error lists', () => {
+      expect(validationErrorsToFieldErrors({ _errors: [], email: {} })).toEqual({});
+    });
+  });
+
+  describe('formatValidationErrors', () => {
+    it('should return formatted validation errors unchanged', () => {
+      const validationErrors = { _errors: ['Form error'], email: { _errors: ['Invalid email'] } };
+
+      expect(formatValidationErrors(validationErrors)).toBe(validationErrors);
+    });
+  });
+
+  describe('flattenValidationErrors', () => {
+    it('should flatten root and top level field errors', () => {
+      const flattened = flattenValidationErrors({
+        _errors: ['Form error'],
+        email: { _errors: ['Invalid email', 'Email already taken'] },
+        profile: { name: { _errors: ['Name is required'] } },
+      });
+
+      expect(flattened).toEqual({
+        formErrors: ['Form error'],
+        fieldErrors: { email: ['Invalid email', 'Email already taken'] },
+      });
+    });
+
+    it('should return empty lists when there are no errors', () => {
+      expect(flattenValidationErrors({})).toEqual({ formErrors: [], fieldErrors: {} });
+    });
+
+    it('should handle an undefined root errors list', () => {
+      expect(flattenValidationErrors({ _errors: undefined })).toEqual({
+        formErrors: [],
+        fieldErrors: {},
+      });
+    });
+  });
+
+  describe('validateMetadata', () => {
+    const metadataSchema = z.object({ actionName: z.string().min(1) });
+
+    it('should return parsed metadata when valid', async () => {
+      await expect(validateMetadata({ actionName: 'createUser' }, metadataSchema)).resolves.toEqual(
+        {
+          actionName: 'createUser',
+        }
+      );
+    });
+
+    it('should throw ActionMetadataValidationError for missing or invalid metadata', async () => {
+      await expect(validateMetadata(undefined, metadataSchema)).rejects.toThrow(
+        ActionMetadataValidationError
+      );
+
+      try {
+        await validateMetadata({ actionName: '' }, metadataSchema);
+      } catch (error) {
+        expect((error as ActionMetadataValidationError).validationErrors).toEqual({
+          actionName: { _errors: [expect.any(String)] },
+        });
+      }
+      expect.assertions(2);
+    });
+
+    it('should throw non-Zod errors', async () => {
+      const throwingSchema = {
+        parseAsync: async () => {
+          throw new Error('Non-Zod error');
+        },
+      } as unknown as z.ZodType;
+
+      await expect(validateMetadata({}, throwingSchema)).rejects.toThrow('Non-Zod error');
+    });
+  });
+  describe('async refinements', () => {
+    const takenSlugs = ['taken'];
+    const schema = z.object({
+      slug: z.string().refine(async (slug) => !takenSlugs.includes(slug), 'Slug already taken'),
+    });
+
+    it('should report async refinements as validation errors', async () => {
+      const result = await validateInput({ slug: 'taken' }, schema);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.validationErrors).toEqual({
+          slug: { _errors: ['Slug already taken'] },
+        });
+      }
+    });
+
+    it('should run async refinements on outputs and bound arguments', async () => {
+      const outputResult = await validateOutput({ slug: 'taken' }, schema);
+      const bindArgsResult = await validateBindArgs([{ slug: 'free' }], [schema]);
+
+      expect(outputResult.success).toBe(false);
+      expect(bindArgsResult.success).toBe(true);
+    });
+  });
+  describe('Standard Schema', () => {
+    // Schema written against the Standard Schema interface, like Valibot or ArkType schemas
+    const profileSchema: StandardSchemaV1<{ name: string }> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) => {
+          const name = (value as { name?: unknown })?.name;
+          if (typeof name === 'string' && name.length > 0) {
+            return { value: { name } };
+          }
+          return { issues: [{ message: 'Name is required', path: [{ key: 'name' }] }] };
+        },
+      },
+    };
+
+    it('should validate input with ~standard.validate', async () => {
+      const result = await validateInput({ name: 'John' }, profileSchema);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual({ name: 'John' });
+      }
+    });
+
+    it('should map issue paths into the validation error shapes', async () => {
+      const schema: StandardSchemaV1 = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: async () => ({
+            issues: [
+              { message: 'Form is invalid' },
+              { message: 'Name is required', path: ['profile', { key: 'name' }] },
+              { message: 'Tag is invalid', path: ['tags', 0] },
+            ],
+          }),
+        },
+      };
+
+      const result = await validateInput({}, schema);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.result.fieldErrors).toEqual({
+          '': ['Form is invalid'],
+          'profile.name': ['Name is required'],
+          'tags.0': ['Tag is invalid'],
+        });
+        expect(result.result.validationErrors).toEqual({
+          _errors: ['Form is invalid'],
+          profile: { name: { _errors: ['Name is required'] } },
+          tags: { 0: { _errors: ['Tag is invalid'] } },
+        });
+      }
+    });
+
+    it('should validate outputs, bound arguments and metadata', async () => {
+      const outputResult = await validateOutput({ name: '' }, profileSchema);
+      const bindArgsResult = await validateBindArgs(
+        [{ name: 'John' }, {}],
+        [profileSchema, profileSchema]
+      );
+
+      expect(outputResult.success).toBe(false);
+      if (!outputResult.success) {
+        expect(outputResult.result.validationErrors).toEqual({ name: ['Name is required'] });
+      }
+      expect(bindArgsResult.success).toBe(false);
+      if (!bindArgsResult.success) {
+        expect(bindArgsResult.result.bindArgsValidationErrors).toEqual([
+          {},
+          { name: { _errors: ['Name is required'] } },
+        ]);
+      }
+      await expect(validateMetadata({ name: 'createUser' }, profileSchema)).resolves.toEqual({
+        name: 'createUser',
+      });
+      await expect(validateMetadata({}, profileSchema)).rejects.toThrow(
+        ActionMetadataValidationError
+      );
+    });
+  });
+  describe('Zod v3 schemas', () => {
+    const schema = z3.object({
+      email: z3.string().email(),
+      profile: z3.object({ name: z3.string().min(1) }),
+    });
+
+    it('should validate input with a Zod v3 schema', async () => {
+      const input = { email: 'test@example.com', profile: { name: 'John' } };
+      const result = await validateInput(input, schema);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(input);
+      }
+    });
+
+    it('should return validation errors instead of throwing Zod v3 errors', async () => {
+      const result = await validateInput({ email: 'invalid', profile: { name: '' } }, schema);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(Object.keys(result.result.fieldErrors ?? {})).toEqual(['email', 'profile.name']);
+        expect(result.result.validationErrors).toEqual({
+          email: { _errors: [expect.any(String)] },
+          profile: { name: { _errors: [expect.any(String)] } },
+        });
+      }
+    });
+
+    it('should validate metadata with a Zod v3 schema', async () => {
+      await expect(validateMetadata({}, z3.object({ actionName: z3.string() }))).rejects.toThrow(
+        ActionMetadataValidationError
+      );
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { z as z3 } from 'zod/v3';
+import { isZodError, isZodSchema } from '../src/zod-compat';
+
+/**
+ * Returns the error thrown when parsing a value
+ */
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('zod-compat', () => {
+  describe('isZodSchema', () => {
+    it('should recognize Zod v3 and v4 schemas', () => {
+      expect(isZodSchema(z.object({ id: z.string() }))).toBe(true);
+      expect(isZodSchema(z3.object({ id: z3.string() }))).toBe(true);
+    });
+
+    it('should not recognize other schemas and values', () => {
+      const standardSchema = {
+        '~standard': { version: 1, vendor: 'test', validate: (value: unknown) => ({ value }) },
+      };
+
+      expect(isZodSchema(standardSchema)).toBe(false);
+      expect(isZodSchema(null)).toBe(false);
+      expect(isZodSchema('schema')).toBe(false);
+    });
+  });
+
+  describe('isZodError', () => {
+    it('should recognize Zod v4 errors', () => {
+      const error = catchError(() => z.string().parse(42));
+
+      expect(isZodError(error)).toBe(true);
+    });
+
+    it('should recognize Zod v3 errors that are not instances of the v4 ZodError', () => {
+      const error = catchError(() => z3.object({ id: z3.string() }).parse({ id: 42 }));
+
+      expect(error).not.toBeInstanceOf(z.ZodError);
+      expect(isZodError(error)).toBe(true);
+      expect(isZodError(error) && error.issues[0].path).toEqual(['id']);
+    });
+
+    it('should recognize Zod 4 core errors', () => {
+      const error = Object.assign(new Error('Invalid input'), { name: '$ZodError', issues: [] });
+
+      expect(isZodError(error)).toBe(true);
+    });
+
+    it('should not recognize other errors', () => {
+      expect(isZodError(new Error('Database error'))).toBe(false);
+      expect(isZodError(Object.assign(new Error('No issues'), { name: 'ZodError' }))).toBe(false);
+      expect(isZodError({ name: 'ValiError', issues: [] })).toBe(false);
+      expect(isZodError(null)).toBe(false);
+      expect(isZodError('ZodError')).toBe(false);
+    });
+  });
+});
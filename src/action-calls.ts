@@ -0,0 +1,87 @@
+/**
+ * Invocation recording for action functions
+ *
+ * Every action records its calls (action.calls, action.lastCall) with the context, parsed inputs,
+ * result and duration, and exposes the mock function properties read by Jest and Vitest matchers,
+ * so expect(action).toHaveBeenCalledWith(input) works without wrapping actions in jest.fn().
+ */
+
+import type { ActionCall, RecordedAction, SafeActionResult } from './types';
+
+/**
+ * Wraps an action implementation so its invocations are recorded
+ *
+ * invoke receives the call record and fills in what only the action knows (inputs, ctx, metadata).
+ * The wrapper sets the result or error and the duration once the action settles.
+ */
+export function recordCalls<TOutput, TServerError, TValidationErrors>(
+  invoke: (
+    call: ActionCall<TOutput, TServerError, TValidationErrors>,
+    clientInputs: unknown[]
+  ) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>
+): ((
+  ...clientInputs: unknown[]
+) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>) &
+  RecordedAction<TOutput, TServerError, TValidationErrors> {
+  const calls: ActionCall<TOutput, TServerError, TValidationErrors>[] = [];
+
+  const action = async (
+    ...clientInputs: unknown[]
+  ): Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>> => {
+    const call: ActionCall<TOutput, TServerError, TValidationErrors> = {
+      args: clientInputs,
+      clientInput: undefined,
+      bindArgsClientInputs: [],
+      metadata: undefined,
+      ctx: {},
+      parsedInput: undefined,
+      bindArgsParsedInputs: [],
+      durationMs: 0,
+    };
+    calls.push(call);
+    const startedAt = performance.now();
+
+    try {
+      call.result = await invoke(call, clientInputs);
+      return call.result;
+    } catch (error) {
+      call.error = error;
+      throw error;
+    } finally {
+      call.durationMs = performance.now() - startedAt;
+    }
+  };
+
+  const mock = Object.defineProperties(
+    {},
+    {
+      calls: { get: () => calls.map((call) => call.args), enumerable: true },
+      results: {
+        get: () =>
+          calls.map((call) => {
+            if ('error' in call) {
+              return { type: 'throw', value: call.error };
+            }
+            if (call.result) {
+              return { type: 'return', value: call.result };
+            }
+            return { type: 'incomplete', value: undefined };
+          }),
+        enumerable: true,
+      },
+    }
+  );
+
+  return Object.defineProperties(action, {
+    calls: { value: calls },
+    lastCall: { get: () => calls[calls.length - 1] },
+    resetCalls: {
+      value: () => {
+        calls.length = 0;
+      },
+    },
+    mock: { value: mock },
+    _isMockFunction: { value: true },
+    getMockName: { value: () => 'action' },
+  }) as typeof action & RecordedAction<TOutput, TServerError, TValidationErrors>;
+}
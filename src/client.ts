@@ -5,261 +5,913 @@
  * client.inputSchema(schema).metadata(metadata).action(handler)
  */
 
-import { z } from 'zod';
 import type {
   MockSafeActionClientConfig,
+  ResolvedMockSafeActionClientConfig,
   SafeActionResult,
-  Middleware,
+  SafeActionFn,
+  SafeStateActionFn,
+  MiddlewareFn,
+  MiddlewareResult,
+  Prettify,
+  SafeActionCallbacks,
+  SafeActionUtils,
+  SafeActionCallbackArgs,
+  NavigationKind,
   ActionHandler,
+  StateActionHandler,
+  InferBindArgs,
+  InferInput,
+  InputSchemaFactory,
+  AnyValidationErrors,
+  ValidationErrorsList,
+  HandleValidationErrorsShapeFn,
+  InputSchemaUtils,
+  StandardSchemaV1,
+  ServerErrorFunctionUtils,
+  RecordedAction,
 } from './types';
-import { validateInput, validateOutput } from './validation';
+import {
+  validateInput,
+  validateBindArgs,
+  validateOutput,
+  validateMetadata,
+  validationErrorsToFieldErrors,
+  formatValidationErrors,
+  flattenValidationErrors,
+} from './validation';
 import { handleError } from './error-handler';
-import { wrapResult } from './result-wrapper';
+import { ActionServerValidationError, ActionValidationError } from './errors';
+import { isNavigationError, getNavigationOutcome } from './navigation';
+import { isFormData, formDataToObject } from './form-data';
+import { recordCalls } from './action-calls';
+import { wrapResult, wrapValidationErrors } from './result-wrapper';
 
 /**
- * Builder class for input schema step
+ * Everything collected by the builder chain that is needed to run an action
  */
-class SchemaBuilder<T extends z.ZodType> {
-  private _outputSchema?: z.ZodType;
+interface ActionDefinition {
+  // Resolved when the action runs if built from schema factory functions
+  schema?: StandardSchemaV1 | (() => Promise<StandardSchemaV1>);
+  bindArgsSchemas: readonly StandardSchemaV1[];
+  outputSchema?: StandardSchemaV1;
+  metadata: unknown;
+  middlewares: MiddlewareFn<any, any, any>[];
+  config: ResolvedMockSafeActionClientConfig<any>;
+  handleValidationErrorsShape?: HandleValidationErrorsShapeFn<any, any>;
+}
 
-  constructor(
-    private schema: T,
-    private middlewares: Middleware[],
-    private config: Required<MockSafeActionClientConfig>
-  ) {}
+/**
+ * Builder state before the output schema and metadata steps
+ */
+type SchemaDefinition = Omit<ActionDefinition, 'outputSchema' | 'metadata'>;
 
-  /**
-   * Add output schema for validation
-   * In next-safe-action, this validates the handler return value against the schema.
-   * In safemocker, this performs the same validation to catch output bugs in tests.
-   */
-  outputSchema<TOutputSchema extends z.ZodType>(outputSchema: TOutputSchema): SchemaBuilder<T> {
-    this._outputSchema = outputSchema;
-    return this;
+/**
+ * Checks whether an .inputSchema() argument (or the chained schema) is a schema factory
+ *
+ * Callable schemas (e.g. ArkType's) carry '~standard' and are schemas, not factories.
+ */
+function isInputSchemaFactory<T>(schema: T): schema is Extract<T, (...args: never[]) => unknown> {
+  return typeof schema === 'function' && !('~standard' in schema);
+}
+
+/**
+ * Chains an .inputSchema() argument to the schema defined earlier in the builder chain
+ *
+ * Schema factory functions receive the previous schema when the action runs,
+ * a concrete schema replaces it.
+ */
+function chainInputSchema(
+  prevSchema: ActionDefinition['schema'],
+  schema: StandardSchemaV1 | InputSchemaFactory<any, StandardSchemaV1>
+): ActionDefinition['schema'] {
+  if (!isInputSchemaFactory(schema)) {
+    return schema;
   }
+  return async () => schema(isInputSchemaFactory(prevSchema) ? await prevSchema() : prevSchema);
+}
 
-  /**
-   * Add metadata to the action
-   */
-  metadata(metadata: any): MetadataBuilder<T> {
-    return new MetadataBuilder(this.schema, metadata, this.middlewares, this.config, this._outputSchema);
+/**
+ * Applies the validation errors shape to a validation errors result
+ *
+ * The per action handleValidationErrorsShape wins over the client one, otherwise
+ * defaultValidationErrorsShape is used ('formatted' unless configured).
+ */
+async function shapeValidationErrors(
+  result: SafeActionResult<never, never, ValidationErrorsList>,
+  definition: ActionDefinition,
+  utils: ServerErrorFunctionUtils
+): Promise<SafeActionResult<never, never, unknown>> {
+  const { config } = definition;
+  const validationErrors = result.validationErrors ?? {};
+  const handleValidationErrorsShape =
+    definition.handleValidationErrorsShape ?? config.handleValidationErrorsShape;
+
+  if (handleValidationErrorsShape) {
+    return {
+      ...result,
+      validationErrors: await handleValidationErrorsShape(validationErrors, utils),
+    };
+  }
+  if (config.defaultValidationErrorsShape === 'flattened') {
+    return { ...result, validationErrors: flattenValidationErrors(validationErrors) };
   }
+  return { ...result, validationErrors: formatValidationErrors(validationErrors) };
+}
 
-  /**
-   * Add action handler (skipping metadata)
-   */
-  action<TOutput>(
-    handler: ActionHandler<z.infer<T>, TOutput, any>
-  ): (input: unknown) => Promise<SafeActionResult<TOutput>> {
-    return this.createAction(handler, undefined);
+/**
+ * Checks whether a middleware returned a MiddlewareResult (e.g. the value resolved by next())
+ */
+function isMiddlewareResult(value: unknown): value is MiddlewareResult<any, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as MiddlewareResult<any, any>).success === 'boolean'
+  );
+}
+
+/**
+ * Removes the middleware only fields (success, parsed inputs, ctx) from a MiddlewareResult
+ */
+function toSafeActionResult(
+  middlewareResult: MiddlewareResult<any, any>
+): SafeActionResult<any, any, any> {
+  const result: Partial<MiddlewareResult<any, any>> = { ...middlewareResult };
+  delete result.success;
+  delete result.parsedInput;
+  delete result.bindArgsParsedInputs;
+  delete result.ctx;
+  return result;
+}
+
+/**
+ * Runs the server side callbacks of an action with its final result
+ *
+ * After a navigation error only onNavigation and onSettled run. Otherwise onError runs when
+ * the result holds a server error or validation errors, onSuccess otherwise. onSettled always runs.
+ */
+async function executeCallbacks(
+  callbacks: SafeActionCallbacks<any, any, any, any, any, any, any>,
+  result: SafeActionResult<unknown, unknown, unknown>,
+  args: SafeActionCallbackArgs<Record<string, unknown>, unknown> & {
+    parsedInput: unknown;
+    bindArgsParsedInputs: unknown[];
+    navigationKind?: NavigationKind;
   }
+): Promise<void> {
+  const { parsedInput, bindArgsParsedInputs, navigationKind, ...callbackArgs } = args;
 
-  private createAction<TOutput>(
-    handler: ActionHandler<z.infer<T>, TOutput, any>,
-    metadata: any
-  ): (input: unknown) => Promise<SafeActionResult<TOutput>> {
-    return async (input: unknown): Promise<SafeActionResult<TOutput>> => {
+  if (navigationKind) {
+    await Promise.all([
+      callbacks.onNavigation?.({ ...callbackArgs, navigationKind }),
+      callbacks.onSettled?.({ ...callbackArgs, result, navigationKind }),
+    ]);
+    return;
+  }
+
+  const { data, ...error } = result;
+  const hasErrors =
+    result.serverError !== undefined ||
+    result.fieldErrors !== undefined ||
+    result.validationErrors !== undefined ||
+    result.bindArgsValidationErrors !== undefined;
+
+  await Promise.all([
+    hasErrors
+      ? callbacks.onError?.({ ...callbackArgs, error })
+      : callbacks.onSuccess?.({ ...callbackArgs, data, parsedInput, bindArgsParsedInputs }),
+    callbacks.onSettled?.({ ...callbackArgs, result }),
+  ]);
+}
+
+/**
+ * Returns a deep copy of a result
+ * Falls back to a JSON copy where structuredClone is missing (Jest's jsdom environment).
+ */
+function copyResult(result: unknown): unknown {
+  if (typeof structuredClone === 'function') {
+    return structuredClone(result);
+  }
+  return JSON.parse(JSON.stringify(result));
+}
+
+/**
+ * Throws the errors of an action result when throwValidationErrors or throwServerError is enabled
+ *
+ * The per action throwValidationErrors wins over the client one. Validation errors are thrown
+ * as an ActionValidationError, the server error is thrown as returned by handleServerError.
+ * Output validation errors (isOutputValidationError) are not input errors and stay in the result.
+ */
+async function throwResultErrors(
+  result: SafeActionResult<unknown, unknown, unknown>,
+  config: ResolvedMockSafeActionClientConfig<unknown>,
+  utils?: SafeActionUtils<any, any, any, any, any, any, any>,
+  isOutputValidationError = false
+): Promise<void> {
+  if (result.validationErrors !== undefined && !isOutputValidationError) {
+    const throwValidationErrors =
+      utils?.throwValidationErrors === undefined
+        ? config.throwValidationErrors
+        : Boolean(utils.throwValidationErrors);
+
+    if (throwValidationErrors) {
+      const overrideErrorMessage =
+        typeof utils?.throwValidationErrors === 'object'
+          ? await utils.throwValidationErrors.overrideErrorMessage(result.validationErrors)
+          : undefined;
+      throw new ActionValidationError(result.validationErrors, overrideErrorMessage);
+    }
+  }
+
+  if (result.serverError !== undefined && utils?.throwServerError) {
+    throw result.serverError;
+  }
+}
+
+/**
+ * Creates the action function for a builder chain
+ *
+ * Bound arguments are passed first and the input last, matching action.bind(null, ...args).
+ * State actions (withState) take the previous result between them and pass it to the handler.
+ */
+function createAction<TOutput, TServerError, TValidationErrors>(
+  definition: ActionDefinition,
+  handler: StateActionHandler<any, TOutput, any, any, TServerError, TValidationErrors>,
+  utils?: SafeActionUtils<TOutput, any, any, any, TServerError, TValidationErrors, any>,
+  withState = false
+): ((
+  ...clientInputs: unknown[]
+) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>) &
+  RecordedAction<TOutput, TServerError, TValidationErrors> {
+  const { schema, bindArgsSchemas, outputSchema, metadata, middlewares, config } = definition;
+
+  return recordCalls<TOutput, TServerError, TValidationErrors>(async (call, clientInputs) => {
+    const bindArgsClientInputs = clientInputs.slice(0, bindArgsSchemas.length);
+    const prevResult = withState ? clientInputs[bindArgsSchemas.length] : undefined;
+    const clientInput = clientInputs[bindArgsSchemas.length + (withState ? 1 : 0)];
+    Object.assign(call, { clientInput, bindArgsClientInputs, metadata });
+    if (withState) {
+      call.prevResult = prevResult as SafeActionResult<TOutput, TServerError, TValidationErrors>;
+    }
+    // Latest context reached in the middleware chain (passed to handleServerError)
+    let latestCtx: Record<string, unknown> = {};
+    // Parsed inputs, set once validation succeeds (passed to onSuccess)
+    let parsedInput: unknown;
+    let bindArgsParsedInputs: unknown[] = [];
+    // Navigation error (redirect(), notFound(), ...) thrown in middleware or the handler
+    let navigationError: unknown;
+    // Set when the handler output fails the outputSchema (validationErrors that are never thrown)
+    let isOutputValidationError = false;
+    const getUtils = (): ServerErrorFunctionUtils => ({
+      clientInput,
+      bindArgsClientInputs,
+      ctx: latestCtx,
+      metadata,
+    });
+
+    // Converts a thrown error to the error part of the result
+    const errorToResult = async (
+      error: unknown
+    ): Promise<SafeActionResult<never, TServerError>> => {
+      // returnValidationErrors() reports validation errors, not a server error
+      if (error instanceof ActionServerValidationError) {
+        const validationErrors = error.validationErrors as ValidationErrorsList;
+        return (await shapeValidationErrors(
+          wrapValidationErrors(validationErrorsToFieldErrors(validationErrors), validationErrors),
+          definition,
+          getUtils()
+        )) as SafeActionResult<never, never>;
+      }
+      return handleError<TServerError>(error, {
+        defaultServerError: config.defaultServerError,
+        isProduction: config.isProduction,
+        handleServerError: config.handleServerError,
+        utils: getUtils(),
+      });
+    };
+
+    // Runs validation, the middleware chain and the handler
+    const run = async (): Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>> => {
       try {
-        // Step 1: Validate input schema
-        const validationResult = validateInput(input, this.schema);
-        if (!validationResult.success) {
-          return validationResult.result;
+        // Step 0: Validate metadata against the client's metadata schema (as a serverError)
+        if (config.defineMetadataSchema) {
+          await validateMetadata(metadata, config.defineMetadataSchema());
         }
 
-        // Step 2: Execute middleware chain
-        let context: Record<string, any> = {};
-        
-        // Build middleware chain
-        const middlewareChain = async (index: number, currentCtx: Record<string, any>): Promise<any> => {
-          if (index >= this.middlewares.length) {
-            // All middleware executed, run handler
-            return await handler({
-              parsedInput: validationResult.data,
-              ctx: currentCtx,
-            });
+        // Step 1: Validate bound arguments (next-safe-action reports these before input errors)
+        const bindArgsValidationResult = await validateBindArgs(
+          bindArgsClientInputs,
+          bindArgsSchemas,
+          config.defaultValidationErrorsShape
+        );
+        if (!bindArgsValidationResult.success) {
+          return bindArgsValidationResult.result;
+        }
+
+        // Step 2: Validate input schema (actions without one receive parsedInput undefined)
+        const inputSchema = isInputSchemaFactory(schema) ? await schema() : schema;
+        if (inputSchema) {
+          const input =
+            config.formData === 'object' && isFormData(clientInput)
+              ? formDataToObject(clientInput)
+              : clientInput;
+          const validationResult = await validateInput(input, inputSchema);
+          if (!validationResult.success) {
+            return (await shapeValidationErrors(
+              validationResult.result,
+              definition,
+              getUtils()
+            )) as SafeActionResult<TOutput, TServerError, TValidationErrors>;
+          }
+          parsedInput = validationResult.data;
+        }
+
+        bindArgsParsedInputs = bindArgsValidationResult.data;
+
+        // Step 3: Run the handler and validate its output (end of the middleware chain)
+        const runHandler = async (
+          ctx: Record<string, unknown>
+        ): Promise<MiddlewareResult<any, any>> => {
+          const params = { parsedInput, bindArgsParsedInputs, ctx };
+          // Handlers get a copy of the previous result, like next-safe-action
+          const handlerResult = withState
+            ? await handler(params, {
+                prevResult: copyResult(prevResult ?? {}) as SafeActionResult<
+                  TOutput,
+                  TServerError,
+                  TValidationErrors
+                >,
+              })
+            : await (handler as ActionHandler<any, TOutput, any, any>)(params);
+          const inputs = { parsedInput, bindArgsParsedInputs, ctx };
+
+          // Validate output schema if provided
+          if (outputSchema) {
+            const outputValidationResult = await validateOutput(handlerResult, outputSchema);
+            if (!outputValidationResult.success) {
+              isOutputValidationError = true;
+              // Output errors are keyed by dotted path, whatever the input validation errors shape
+              return { success: false, ...outputValidationResult.result, ...inputs };
+            }
+            // Use validated output
+            return { success: true, ...wrapResult(outputValidationResult.data), ...inputs };
           }
 
-          const middleware = this.middlewares[index];
-          const result = await middleware({
-            next: async (params?: { ctx?: Record<string, any> }) => {
-              // Extract ctx from params (next-safe-action uses { ctx: newContext } format)
-              const newCtx = params?.ctx || {};
-              // Merge new context with existing context
-              const mergedCtx = { ...currentCtx, ...newCtx };
-              return middlewareChain(index + 1, mergedCtx);
-            },
-            ctx: currentCtx,
-            metadata,
-          });
-          
-          return result;
+          return { success: true, ...wrapResult(handlerResult), ...inputs };
         };
 
-        // Execute middleware chain
-        const handlerResult = await middlewareChain(0, context);
+        // Step 4: Execute middleware chain
+        // Each level catches its errors, so next() always resolves with a MiddlewareResult
+        const middlewareChain = async (
+          index: number,
+          currentCtx: Record<string, unknown>
+        ): Promise<MiddlewareResult<any, any>> => {
+          latestCtx = currentCtx;
+          let nextResult: MiddlewareResult<any, any> | undefined;
 
-        // Step 3: Validate output schema if provided
-        if (this._outputSchema) {
-          const outputValidationResult = validateOutput(handlerResult, this._outputSchema);
-          if (!outputValidationResult.success) {
-            return outputValidationResult.result as SafeActionResult<TOutput>;
+          try {
+            if (index >= middlewares.length) {
+              // All middleware executed, run handler
+              return await runHandler(currentCtx);
+            }
+
+            const middleware = middlewares[index];
+            const result = await middleware({
+              next: async (params?: { ctx?: Record<string, unknown> }) => {
+                // Extract ctx from params (next-safe-action uses { ctx: newContext } format)
+                const newCtx = params?.ctx || {};
+                // Merge new context with existing context
+                const mergedCtx = { ...currentCtx, ...newCtx };
+                nextResult = await middlewareChain(index + 1, mergedCtx);
+                return nextResult;
+              },
+              ctx: currentCtx,
+              metadata,
+              clientInput,
+              bindArgsClientInputs,
+              parsedInput,
+            });
+
+            // The middleware's return value (possibly post-processed) becomes the result
+            return isMiddlewareResult(result) ? result : (nextResult ?? { success: false });
+          } catch (error) {
+            // Navigation errors are not server errors: keep them for the end of the action
+            if (isNavigationError(error)) {
+              navigationError = error;
+              return { success: true, parsedInput, bindArgsParsedInputs, ctx: currentCtx };
+            }
+            return {
+              success: false,
+              ...(await errorToResult(error)),
+              parsedInput,
+              bindArgsParsedInputs,
+              ctx: currentCtx,
+            };
           }
-          // Use validated output
-          return wrapResult(outputValidationResult.data) as SafeActionResult<TOutput>;
-        }
+        };
 
-        // Step 4: Wrap result
-        return wrapResult(handlerResult);
+        // Step 5: Build the action result from the middleware result
+        return toSafeActionResult(await middlewareChain(0, {}));
       } catch (error) {
-        return handleError(error, {
-          defaultServerError: this.config.defaultServerError,
-          isProduction: this.config.isProduction,
-        });
+        return (await errorToResult(error)) as SafeActionResult<
+          TOutput,
+          TServerError,
+          TValidationErrors
+        >;
       }
     };
+
+    let result = await run();
+    const navigation =
+      navigationError === undefined ? undefined : getNavigationOutcome(navigationError);
+    if (navigation) {
+      // Navigation errors replace the result (recorded in result.navigation or rethrown below)
+      result = config.navigationErrors === 'record' ? { navigation } : {};
+    }
+    Object.assign(call, { ctx: latestCtx, parsedInput, bindArgsParsedInputs });
+
+    // Step 6: Throw errors instead of returning them when asked to
+    // (callbacks are skipped, like next-safe-action)
+    if (!navigation) {
+      await throwResultErrors(result, config, utils, isOutputValidationError);
+    }
+
+    // Step 7: Run the server side callbacks passed to .action()
+    if (utils) {
+      await executeCallbacks(utils, result, {
+        metadata,
+        ctx: latestCtx,
+        clientInput,
+        bindArgsClientInputs,
+        parsedInput,
+        bindArgsParsedInputs,
+        navigationKind: navigation?.kind,
+      });
+    }
+
+    // Step 8: Let navigation errors through, like next-safe-action
+    if (navigation && config.navigationErrors !== 'record') {
+      throw navigationError;
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Builder class for input schema step
+ */
+class SchemaBuilder<
+  T extends StandardSchemaV1 | undefined,
+  TBindArgsSchemas extends readonly StandardSchemaV1[] = [],
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TMetadata = any,
+  TCtx extends Record<string, any> = object,
+> {
+  private _outputSchema?: StandardSchemaV1;
+
+  constructor(private definition: SchemaDefinition) {}
+
+  /**
+   * Replace or extend the input schema
+   * A schema factory function receives the schema defined earlier in the chain,
+   * e.g. .inputSchema(async (prevSchema) => prevSchema.extend({ title: z.string() })).
+   */
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: TNewSchema,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): SchemaBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  >;
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: InputSchemaFactory<T, TNewSchema>,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): SchemaBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  >;
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: TNewSchema | InputSchemaFactory<T, TNewSchema>,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): SchemaBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  > {
+    const builder = new SchemaBuilder<
+      TNewSchema,
+      TBindArgsSchemas,
+      TServerError,
+      TNewValidationErrors,
+      TMetadata,
+      TCtx
+    >({
+      ...this.definition,
+      schema: chainInputSchema(this.definition.schema, schema),
+      handleValidationErrorsShape:
+        utils?.handleValidationErrorsShape ?? this.definition.handleValidationErrorsShape,
+    });
+    builder._outputSchema = this._outputSchema;
+    return builder;
+  }
+
+  /**
+   * Add output schema for validation
+   * In next-safe-action, this validates the handler return value against the schema.
+   * In safemocker, this performs the same validation to catch output bugs in tests.
+   */
+  outputSchema<TOutputSchema extends StandardSchemaV1>(
+    outputSchema: TOutputSchema
+  ): SchemaBuilder<T, TBindArgsSchemas, TServerError, TValidationErrors, TMetadata, TCtx> {
+    const builder = new SchemaBuilder<
+      T,
+      TBindArgsSchemas,
+      TServerError,
+      TValidationErrors,
+      TMetadata,
+      TCtx
+    >(this.definition);
+    builder._outputSchema = outputSchema;
+    return builder;
+  }
+
+  /**
+   * Add schemas for bound arguments (action.bind(null, ...args))
+   * Each bound argument is validated and passed to the handler as bindArgsParsedInputs.
+   */
+  bindArgsSchemas<const TNewBindArgsSchemas extends readonly StandardSchemaV1[]>(
+    bindArgsSchemas: TNewBindArgsSchemas
+  ): SchemaBuilder<T, TNewBindArgsSchemas, TServerError, TValidationErrors, TMetadata, TCtx> {
+    const builder = new SchemaBuilder<
+      T,
+      TNewBindArgsSchemas,
+      TServerError,
+      TValidationErrors,
+      TMetadata,
+      TCtx
+    >({
+      ...this.definition,
+      bindArgsSchemas,
+    });
+    builder._outputSchema = this._outputSchema;
+    return builder;
+  }
+
+  /**
+   * Add metadata to the action
+   * Typed (and validated when the action runs) by the client's defineMetadataSchema
+   */
+  metadata(
+    metadata: TMetadata
+  ): MetadataBuilder<T, TBindArgsSchemas, TServerError, TValidationErrors, TMetadata, TCtx> {
+    return new MetadataBuilder({ ...this.definition, metadata }, this._outputSchema);
+  }
+
+  /**
+   * Add action handler (skipping metadata)
+   * Server side callbacks (onSuccess, onError, onSettled, onNavigation) run after the action,
+   * throwServerError and throwValidationErrors throw errors instead of returning them
+   */
+  action<TOutput>(
+    handler: ActionHandler<InferInput<T>, TOutput, TCtx, InferBindArgs<TBindArgsSchemas>>,
+    utils?: SafeActionUtils<
+      TOutput,
+      InferInput<T>,
+      TCtx,
+      TMetadata,
+      TServerError,
+      TValidationErrors,
+      InferBindArgs<TBindArgsSchemas>
+    >
+  ): SafeActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T> {
+    return createAction<TOutput, TServerError, TValidationErrors>(
+      { ...this.definition, outputSchema: this._outputSchema, metadata: undefined },
+      handler,
+      utils
+    ) as SafeActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T>;
+  }
+
+  /**
+   * Add state action handler (skipping metadata), for React's useActionState
+   * The action takes (prevResult, input), the handler receives { prevResult } as second argument.
+   */
+  stateAction<TOutput>(
+    handler: StateActionHandler<
+      InferInput<T>,
+      TOutput,
+      TCtx,
+      InferBindArgs<TBindArgsSchemas>,
+      TServerError,
+      TValidationErrors
+    >,
+    utils?: SafeActionUtils<
+      TOutput,
+      InferInput<T>,
+      TCtx,
+      TMetadata,
+      TServerError,
+      TValidationErrors,
+      InferBindArgs<TBindArgsSchemas>
+    >
+  ): SafeStateActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T> {
+    return createAction<TOutput, TServerError, TValidationErrors>(
+      { ...this.definition, outputSchema: this._outputSchema, metadata: undefined },
+      handler,
+      utils,
+      true
+    ) as SafeStateActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T>;
   }
 }
 
 /**
  * Builder class for metadata step
  */
-class MetadataBuilder<T extends z.ZodType> {
-  private _outputSchema?: z.ZodType;
+class MetadataBuilder<
+  T extends StandardSchemaV1 | undefined,
+  TBindArgsSchemas extends readonly StandardSchemaV1[] = [],
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TMetadata = any,
+  TCtx extends Record<string, any> = object,
+> {
+  private _outputSchema?: StandardSchemaV1;
 
   constructor(
-    private schema: T,
-    private metadata: any,
-    private middlewares: Middleware[],
-    private config: Required<MockSafeActionClientConfig>,
-    outputSchema?: z.ZodType
+    private definition: Omit<ActionDefinition, 'outputSchema'>,
+    outputSchema?: StandardSchemaV1
   ) {
     this._outputSchema = outputSchema;
   }
 
+  /**
+   * Replace or extend the input schema
+   * A schema factory function receives the schema defined earlier in the chain.
+   */
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: TNewSchema,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): MetadataBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  >;
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: InputSchemaFactory<T, TNewSchema>,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): MetadataBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  >;
+  inputSchema<TNewSchema extends StandardSchemaV1, TNewValidationErrors = TValidationErrors>(
+    schema: TNewSchema | InputSchemaFactory<T, TNewSchema>,
+    utils?: InputSchemaUtils<TNewSchema, TNewValidationErrors>
+  ): MetadataBuilder<
+    TNewSchema,
+    TBindArgsSchemas,
+    TServerError,
+    TNewValidationErrors,
+    TMetadata,
+    TCtx
+  > {
+    return new MetadataBuilder(
+      {
+        ...this.definition,
+        schema: chainInputSchema(this.definition.schema, schema),
+        handleValidationErrorsShape:
+          utils?.handleValidationErrorsShape ?? this.definition.handleValidationErrorsShape,
+      },
+      this._outputSchema
+    );
+  }
+
   /**
    * Add output schema for validation
    * In next-safe-action, this validates the handler return value against the schema.
    * In safemocker, this performs the same validation to catch output bugs in tests.
    */
-  outputSchema<TOutputSchema extends z.ZodType>(outputSchema: TOutputSchema): MetadataBuilder<T> {
-    this._outputSchema = outputSchema;
-    return this;
+  outputSchema<TOutputSchema extends StandardSchemaV1>(
+    outputSchema: TOutputSchema
+  ): MetadataBuilder<T, TBindArgsSchemas, TServerError, TValidationErrors, TMetadata, TCtx> {
+    return new MetadataBuilder(this.definition, outputSchema);
+  }
+
+  /**
+   * Add schemas for bound arguments (action.bind(null, ...args))
+   * Each bound argument is validated and passed to the handler as bindArgsParsedInputs.
+   */
+  bindArgsSchemas<const TNewBindArgsSchemas extends readonly StandardSchemaV1[]>(
+    bindArgsSchemas: TNewBindArgsSchemas
+  ): MetadataBuilder<T, TNewBindArgsSchemas, TServerError, TValidationErrors, TMetadata, TCtx> {
+    return new MetadataBuilder({ ...this.definition, bindArgsSchemas }, this._outputSchema);
   }
 
   /**
    * Add action handler
+   * Server side callbacks (onSuccess, onError, onSettled, onNavigation) run after the action,
+   * throwServerError and throwValidationErrors throw errors instead of returning them
    */
   action<TOutput>(
-    handler: ActionHandler<z.infer<T>, TOutput, any>
-  ): (input: unknown) => Promise<SafeActionResult<TOutput>> {
-    return this.createAction(handler);
+    handler: ActionHandler<InferInput<T>, TOutput, TCtx, InferBindArgs<TBindArgsSchemas>>,
+    utils?: SafeActionUtils<
+      TOutput,
+      InferInput<T>,
+      TCtx,
+      TMetadata,
+      TServerError,
+      TValidationErrors,
+      InferBindArgs<TBindArgsSchemas>
+    >
+  ): SafeActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T> {
+    return createAction<TOutput, TServerError, TValidationErrors>(
+      { ...this.definition, outputSchema: this._outputSchema },
+      handler,
+      utils
+    ) as SafeActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T>;
   }
 
-  private createAction<TOutput>(
-    handler: ActionHandler<z.infer<T>, TOutput, any>
-  ): (input: unknown) => Promise<SafeActionResult<TOutput>> {
-    return async (input: unknown): Promise<SafeActionResult<TOutput>> => {
-      try {
-        // Step 1: Validate input schema
-        const validationResult = validateInput(input, this.schema);
-        if (!validationResult.success) {
-          return validationResult.result;
-        }
-
-        // Step 2: Execute middleware chain
-        let context: Record<string, any> = {};
-        
-        // Build middleware chain
-        const middlewareChain = async (index: number, currentCtx: Record<string, any>): Promise<any> => {
-          if (index >= this.middlewares.length) {
-            // All middleware executed, run handler
-            return await handler({
-              parsedInput: validationResult.data,
-              ctx: currentCtx,
-            });
-          }
-
-          const middleware = this.middlewares[index];
-          const result = await middleware({
-            next: async (params?: { ctx?: Record<string, any> }) => {
-              // Extract ctx from params (next-safe-action uses { ctx: newContext } format)
-              const newCtx = params?.ctx || {};
-              // Merge new context with existing context
-              const mergedCtx = { ...currentCtx, ...newCtx };
-              return middlewareChain(index + 1, mergedCtx);
-            },
-            ctx: currentCtx,
-            metadata: this.metadata,
-          });
-          
-          return result;
-        };
-
-        // Execute middleware chain
-        const handlerResult = await middlewareChain(0, context);
-
-        // Step 3: Validate output schema if provided
-        if (this._outputSchema) {
-          const outputValidationResult = validateOutput(handlerResult, this._outputSchema);
-          if (!outputValidationResult.success) {
-            return outputValidationResult.result as SafeActionResult<TOutput>;
-          }
-          // Use validated output
-          return wrapResult(outputValidationResult.data) as SafeActionResult<TOutput>;
-        }
-
-        // Step 4: Wrap result
-        return wrapResult(handlerResult);
-      } catch (error) {
-        return handleError(error, {
-          defaultServerError: this.config.defaultServerError,
-          isProduction: this.config.isProduction,
-        });
-      }
-    };
+  /**
+   * Add state action handler, for React's useActionState
+   * The action takes (prevResult, input), the handler receives { prevResult } as second argument.
+   */
+  stateAction<TOutput>(
+    handler: StateActionHandler<
+      InferInput<T>,
+      TOutput,
+      TCtx,
+      InferBindArgs<TBindArgsSchemas>,
+      TServerError,
+      TValidationErrors
+    >,
+    utils?: SafeActionUtils<
+      TOutput,
+      InferInput<T>,
+      TCtx,
+      TMetadata,
+      TServerError,
+      TValidationErrors,
+      InferBindArgs<TBindArgsSchemas>
+    >
+  ): SafeStateActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T> {
+    return createAction<TOutput, TServerError, TValidationErrors>(
+      { ...this.definition, outputSchema: this._outputSchema },
+      handler,
+      utils,
+      true
+    ) as SafeStateActionFn<TOutput, TBindArgsSchemas, TServerError, TValidationErrors, T>;
   }
 }
 
+/**
+ * Applies default values to a mock client configuration
+ */
+export function resolveClientConfig<TServerError = string>(
+  config?: MockSafeActionClientConfig<TServerError>
+): ResolvedMockSafeActionClientConfig<TServerError> {
+  return {
+    ...config,
+    defaultServerError: config?.defaultServerError || 'Something went wrong',
+    isProduction: config?.isProduction ?? false,
+    auth: {
+      enabled: config?.auth?.enabled ?? true,
+      testUserId: config?.auth?.testUserId || 'test-user-id',
+      testUserEmail: config?.auth?.testUserEmail || 'test@example.com',
+      testAuthToken: config?.auth?.testAuthToken || 'test-token',
+    },
+  };
+}
+
 /**
  * Mock Safe Action Client
  *
  * Replicates the next-safe-action createSafeActionClient API
  */
-export class MockSafeActionClient {
-  private middlewares: Middleware[] = [];
-  private config: Required<MockSafeActionClientConfig>;
-
-  constructor(config?: MockSafeActionClientConfig) {
-    this.config = {
-      defaultServerError: config?.defaultServerError || 'Something went wrong',
-      isProduction: config?.isProduction ?? false,
-      auth: {
-        enabled: config?.auth?.enabled ?? true,
-        testUserId: config?.auth?.testUserId || 'test-user-id',
-        testUserEmail: config?.auth?.testUserEmail || 'test@example.com',
-        testAuthToken: config?.auth?.testAuthToken || 'test-token',
-      },
-    };
+export class MockSafeActionClient<
+  TServerError = string,
+  TMetadata = any,
+  TCtx extends Record<string, any> = object,
+> {
+  private middlewares: MiddlewareFn<any, any, any>[] = [];
+  private config: ResolvedMockSafeActionClientConfig<TServerError>;
+
+  constructor(config?: MockSafeActionClientConfig<TServerError, TMetadata>) {
+    this.config = resolveClientConfig(config);
   }
 
   /**
    * Add middleware to the chain
-   * 
-   * Returns the same instance (this) so middleware can be chained.
-   * In next-safe-action, calling .use() on a client returns a new client
-   * with the middleware added, but for our mock we modify the existing instance.
+   *
+   * Returns a new client with the middleware added, like next-safe-action, so clients
+   * derived with .use() never leak middleware into the client they were created from.
+   * With the mutableUse config option, the middleware is added to this client instead.
+   *
+   * The context passed to next({ ctx }) is added to the client's context type,
+   * so later middleware and handlers receive a typed ctx.
    */
-  use<TContext extends Record<string, any>>(middleware: Middleware<TContext>): this {
-    // Type assertion needed because middleware array accepts any context type
-    this.middlewares.push(middleware as Middleware);
-    return this;
+  use<TNextCtx extends Record<string, any> = object>(
+    middleware: MiddlewareFn<TCtx, TMetadata, TNextCtx>
+  ): MockSafeActionClient<TServerError, TMetadata, Prettify<TCtx & TNextCtx>> {
+    if (this.config.mutableUse) {
+      this.middlewares.push(middleware);
+      return this as MockSafeActionClient<TServerError, TMetadata, Prettify<TCtx & TNextCtx>>;
+    }
+
+    const client = new MockSafeActionClient<TServerError, TMetadata, Prettify<TCtx & TNextCtx>>();
+    client.config = this.config;
+    client.middlewares = [...this.middlewares, middleware];
+    return client;
   }
 
   /**
    * Define input schema and start method chaining
+   *
+   * Pass { handleValidationErrorsShape } to customize this action's validation errors
+   * (e.g. flattenValidationErrors), matching next-safe-action's inputSchema(schema, utils).
+   * Also accepts a schema factory function, see SchemaBuilder.inputSchema().
+   */
+  inputSchema<T extends StandardSchemaV1, TValidationErrors = AnyValidationErrors>(
+    schema: T,
+    utils?: InputSchemaUtils<T, TValidationErrors>
+  ): SchemaBuilder<T, [], TServerError, TValidationErrors, TMetadata, TCtx>;
+  inputSchema<T extends StandardSchemaV1, TValidationErrors = AnyValidationErrors>(
+    schema: InputSchemaFactory<undefined, T>,
+    utils?: InputSchemaUtils<T, TValidationErrors>
+  ): SchemaBuilder<T, [], TServerError, TValidationErrors, TMetadata, TCtx>;
+  inputSchema<T extends StandardSchemaV1, TValidationErrors = AnyValidationErrors>(
+    schema: T | InputSchemaFactory<undefined, T>,
+    utils?: InputSchemaUtils<T, TValidationErrors>
+  ): SchemaBuilder<T, [], TServerError, TValidationErrors, TMetadata, TCtx> {
+    return new SchemaBuilder({
+      schema: chainInputSchema(undefined, schema),
+      bindArgsSchemas: [],
+      middlewares: this.middlewares,
+      config: this.config,
+      handleValidationErrorsShape: utils?.handleValidationErrorsShape,
+    });
+  }
+
+  /**
+   * Add metadata to an action without input schema
+   * The handler receives parsedInput undefined and the input is not validated.
+   */
+  metadata(
+    metadata: TMetadata
+  ): MetadataBuilder<undefined, [], TServerError, AnyValidationErrors, TMetadata, TCtx> {
+    return new MetadataBuilder({
+      bindArgsSchemas: [],
+      middlewares: this.middlewares,
+      config: this.config,
+      metadata,
+    });
+  }
+
+  /**
+   * Define an action without input schema (e.g. logout)
+   * The handler receives parsedInput undefined and the input is not validated.
+   */
+  action<TOutput>(
+    handler: ActionHandler<undefined, TOutput, TCtx>,
+    utils?: SafeActionUtils<TOutput, undefined, TCtx, TMetadata, TServerError>
+  ): SafeActionFn<TOutput, [], TServerError, AnyValidationErrors, undefined> {
+    return new SchemaBuilder<undefined, [], TServerError, AnyValidationErrors, TMetadata, TCtx>({
+      bindArgsSchemas: [],
+      middlewares: this.middlewares,
+      config: this.config,
+    }).action(handler, utils);
+  }
+
+  /**
+   * Define a state action without input schema, for React's useActionState
+   * The action takes (prevResult, input?), the handler receives { prevResult } as second argument.
    */
-  inputSchema<T extends z.ZodType>(schema: T): SchemaBuilder<T> {
-    return new SchemaBuilder(schema, this.middlewares, this.config);
+  stateAction<TOutput>(
+    handler: StateActionHandler<undefined, TOutput, TCtx, [], TServerError>,
+    utils?: SafeActionUtils<TOutput, undefined, TCtx, TMetadata, TServerError>
+  ): SafeStateActionFn<TOutput, [], TServerError, AnyValidationErrors, undefined> {
+    return new SchemaBuilder<undefined, [], TServerError, AnyValidationErrors, TMetadata, TCtx>({
+      bindArgsSchemas: [],
+      middlewares: this.middlewares,
+      config: this.config,
+    }).stateAction(handler, utils);
   }
 }
 
@@ -269,8 +921,8 @@ export class MockSafeActionClient {
  * @param config - Configuration options for the mock client
  * @returns Mock safe action client instance
  */
-export function createMockSafeActionClient(
-  config?: MockSafeActionClientConfig
-): MockSafeActionClient {
+export function createMockSafeActionClient<TServerError = string, TMetadata = any>(
+  config?: MockSafeActionClientConfig<TServerError, TMetadata>
+): MockSafeActionClient<TServerError, TMetadata> {
   return new MockSafeActionClient(config);
 }
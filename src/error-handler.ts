@@ -1,22 +1,53 @@
-import type { SafeActionResult } from './types';
-import { wrapError } from './result-wrapper';
+import type {
+  SafeActionResult,
+  MockSafeActionClientConfig,
+  ServerErrorFunctionUtils,
+} from './types';
+import { wrapError, wrapServerError } from './result-wrapper';
 
 /**
  * Handles errors and converts to SafeActionResult
+ *
+ * When handleServerError is provided, its return value (awaited, it may be async) becomes
+ * the serverError (matching next-safe-action), otherwise the default/isProduction logic applies.
  */
-export function handleError(
+export async function handleError<TServerError = string>(
   error: unknown,
-  config: { defaultServerError: string; isProduction: boolean }
-): SafeActionResult<never> {
+  config: {
+    defaultServerError: string;
+    isProduction: boolean;
+    handleServerError?: MockSafeActionClientConfig<TServerError>['handleServerError'];
+    utils?: ServerErrorFunctionUtils;
+  }
+): Promise<SafeActionResult<never, TServerError, never>> {
+  if (config.handleServerError) {
+    // next-safe-action always passes an Error instance to handleServerError
+    const serverError = error instanceof Error ? error : new Error(config.defaultServerError);
+    return wrapServerError(
+      await config.handleServerError(
+        serverError,
+        config.utils ?? {
+          clientInput: undefined,
+          bindArgsClientInputs: [],
+          ctx: {},
+          metadata: undefined,
+        }
+      )
+    );
+  }
+
   if (error instanceof Error) {
     // In production, always use default message
     // In development, use error message if available, otherwise use default
     const message = config.isProduction
       ? config.defaultServerError
       : error.message || config.defaultServerError;
-    return wrapError(new Error(message), message);
+    return wrapError(new Error(message), message) as SafeActionResult<never, TServerError, never>;
   }
   // For non-Error types, always use default message
-  return wrapError(error, config.defaultServerError);
+  return wrapError(error, config.defaultServerError) as SafeActionResult<
+    never,
+    TServerError,
+    never
+  >;
 }
-
@@ -0,0 +1,179 @@
+/**
+ * Error classes recognized by the action pipeline
+ *
+ * Mirrors the errors next-safe-action throws internally, so handler code
+ * that relies on them behaves the same way in tests.
+ */
+
+import type { StandardSchemaV1, ValidationErrors } from './types';
+
+// Brand shared by every copy of this module: each safemocker entry point bundles its own copy
+// of the error classes, so a plain instanceof check fails for errors thrown by another entry
+const ERROR_BRAND = Symbol.for('@jsonbored/safemocker/error');
+
+/**
+ * Sets the name of an error and brands it with that name
+ */
+function brandError(error: Error, name: string): void {
+  error.name = name;
+  Object.defineProperty(error, ERROR_BRAND, { value: name });
+}
+
+/**
+ * instanceof check of the error classes, matching errors branded by any copy of this module
+ *
+ * Subclasses defined by users keep the regular prototype check.
+ */
+function isBrandedInstance(
+  errorClass: abstract new (...args: never[]) => Error,
+  baseClass: abstract new (...args: never[]) => Error,
+  name: string,
+  value: unknown
+): boolean {
+  if (errorClass !== baseClass) {
+    return Function.prototype[Symbol.hasInstance].call(errorClass, value);
+  }
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<symbol, unknown>)[ERROR_BRAND] === name
+  );
+}
+
+/**
+ * Error carrying validation errors returned by returnValidationErrors()
+ *
+ * The action pipeline converts it into the validation errors part of the result
+ * instead of a serverError, like next-safe-action's internal ActionServerValidationError.
+ */
+export class ActionServerValidationError<
+  TValidationErrors = ValidationErrors<StandardSchemaV1>,
+> extends Error {
+  constructor(public readonly validationErrors: TValidationErrors) {
+    super('Server Action server validation error(s) occurred');
+    brandError(this, 'ActionServerValidationError');
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return isBrandedInstance(
+      this,
+      ActionServerValidationError,
+      'ActionServerValidationError',
+      value
+    );
+  }
+}
+
+/**
+ * Error thrown by actions when throwValidationErrors is enabled
+ *
+ * Thrown by a nested action, it is a regular error for the outer action (a serverError).
+ */
+export class ActionValidationError<
+  TValidationErrors = ValidationErrors<StandardSchemaV1>,
+> extends Error {
+  constructor(
+    public readonly validationErrors: TValidationErrors,
+    overriddenErrorMessage?: string
+  ) {
+    super(overriddenErrorMessage ?? 'Server Action validation error(s) occurred');
+    brandError(this, 'ActionValidationError');
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return isBrandedInstance(this, ActionValidationError, 'ActionValidationError', value);
+  }
+}
+
+/**
+ * Error thrown when action metadata does not match the client's defineMetadataSchema
+ *
+ * Not a validation error of the action input: the pipeline reports it as a serverError.
+ */
+export class ActionMetadataValidationError<
+  TValidationErrors = ValidationErrors<StandardSchemaV1>,
+> extends Error {
+  constructor(public readonly validationErrors: TValidationErrors) {
+    super(
+      'Invalid metadata input. Please be sure to pass metadata via `metadata` method before defining the action.'
+    );
+    brandError(this, 'ActionMetadataValidationError');
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return isBrandedInstance(
+      this,
+      ActionMetadataValidationError,
+      'ActionMetadataValidationError',
+      value
+    );
+  }
+}
+
+/**
+ * Error next-safe-action throws when bound arguments are invalid
+ *
+ * The mock reports invalid bound arguments in result.bindArgsValidationErrors instead,
+ * the class is provided for code that checks errors with instanceof.
+ */
+export class ActionBindArgsValidationError extends Error {
+  constructor(public readonly validationErrors: unknown[]) {
+    super('Server Action bind args validation error(s) occurred');
+    brandError(this, 'ActionBindArgsValidationError');
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return isBrandedInstance(
+      this,
+      ActionBindArgsValidationError,
+      'ActionBindArgsValidationError',
+      value
+    );
+  }
+}
+
+/**
+ * Error next-safe-action throws when the action output does not match its outputSchema
+ *
+ * The mock reports invalid output in result.validationErrors instead,
+ * the class is provided for code that checks errors with instanceof.
+ */
+export class ActionOutputDataValidationError<
+  TValidationErrors = ValidationErrors<StandardSchemaV1>,
+> extends Error {
+  constructor(public readonly validationErrors: TValidationErrors) {
+    super(
+      'Invalid action data (output). Please be sure to return data following the shape of the schema passed to `dataSchema` method.'
+    );
+    brandError(this, 'ActionOutputDataValidationError');
+  }
+
+  static [Symbol.hasInstance](value: unknown): boolean {
+    return isBrandedInstance(
+      this,
+      ActionOutputDataValidationError,
+      'ActionOutputDataValidationError',
+      value
+    );
+  }
+}
+
+/**
+ * Returns validation errors from inside a handler or middleware (e.g. uniqueness checks)
+ *
+ * Matches next-safe-action's returnValidationErrors(schema, validationErrors).
+ * The schema is only used to type the validation errors object.
+ *
+ * @example
+ * ```typescript
+ * if (await emailTaken(parsedInput.email)) {
+ *   returnValidationErrors(schema, { email: { _errors: ['Email already taken'] } });
+ * }
+ * ```
+ */
+export function returnValidationErrors<TSchema extends StandardSchemaV1>(
+  _schema: TSchema | (() => Promise<TSchema>),
+  validationErrors: ValidationErrors<TSchema>
+): never {
+  throw new ActionServerValidationError(validationErrors);
+}
@@ -0,0 +1,85 @@
+/**
+ * FormData helpers
+ *
+ * Actions used as <form action={...}> receive FormData instead of an object. next-safe-action
+ * passes it to the input schema unchanged (zod-form-data style schemas parse it), and so does
+ * the mock. These helpers convert FormData to objects and build FormData for tests.
+ */
+
+/**
+ * Values createFormData() accepts for a field
+ * Arrays append the field once per item, null and undefined are skipped.
+ */
+export type FormDataFieldValue =
+  | string
+  | number
+  | boolean
+  | bigint
+  | Date
+  | Blob
+  | null
+  | undefined;
+
+/**
+ * Value of a FormData entry (string or File)
+ */
+type FormDataEntry = ReturnType<FormData['getAll']>[number];
+
+/**
+ * Checks whether a value is FormData
+ */
+export function isFormData(value: unknown): value is FormData {
+  return value instanceof FormData;
+}
+
+/**
+ * Converts FormData to a plain object
+ *
+ * Repeated keys become arrays (in insertion order), a key sent once stays a single value.
+ * Keys ending with [] (e.g. tags[]) always become arrays, stored without the suffix (tags),
+ * so fields that may hold a single item still match array schemas. Files are kept as File objects.
+ */
+export function formDataToObject(
+  formData: FormData
+): Record<string, FormDataEntry | FormDataEntry[]> {
+  const values: Record<string, FormDataEntry | FormDataEntry[]> = {};
+
+  for (const key of new Set(formData.keys())) {
+    const entries = formData.getAll(key);
+    if (key.endsWith('[]')) {
+      values[key.slice(0, -2)] = entries;
+    } else {
+      values[key] = entries.length > 1 ? entries : entries[0];
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Builds FormData from a plain object, to call form actions in tests
+ *
+ * Strings and Blobs/Files are appended as is, dates as ISO strings and other values with String().
+ * Arrays append the field once per item, null and undefined values are skipped.
+ */
+export function createFormData(
+  values: Record<string, FormDataFieldValue | readonly FormDataFieldValue[]>
+): FormData {
+  const formData = new FormData();
+
+  Object.entries(values).forEach(([key, value]) => {
+    const items: readonly FormDataFieldValue[] = Array.isArray(value) ? value : [value];
+    items.forEach((item) => {
+      if (item === null || item === undefined) {
+        return;
+      }
+      if (item instanceof Blob) {
+        formData.append(key, item);
+        return;
+      }
+      formData.append(key, item instanceof Date ? item.toISOString() : String(item));
+    });
+  });
+
+  return formData;
+}
@@ -4,8 +4,12 @@
  * These helpers create clients with common middleware patterns already applied
  */
 
-import { z } from 'zod';
-import { createMockSafeActionClient as createBaseClient, MockSafeActionClient, createMockSafeActionClient } from './client';
+import {
+  createMockSafeActionClient as createBaseClient,
+  MockSafeActionClient,
+  createMockSafeActionClient,
+  resolveClientConfig,
+} from './client';
 import {
   createAuthedMiddleware,
   createOptionalAuthMiddleware,
@@ -13,7 +17,12 @@ import {
   createRateLimitMiddleware,
   createErrorHandlingMiddleware,
 } from './middleware';
-import type { MockSafeActionClientConfig } from './types';
+import type {
+  MockSafeActionClientConfig,
+  AuthContext,
+  OptionalAuthContext,
+  ZodCompatibleSchema,
+} from './types';
 
 /**
  * Creates a mock action client with authentication middleware
@@ -26,23 +35,12 @@ import type { MockSafeActionClientConfig } from './types';
  */
 export { createMockSafeActionClient };
 
-export function createAuthedActionClient(
-  config?: MockSafeActionClientConfig
-): MockSafeActionClient {
-  const client = createBaseClient(config);
-  const requiredConfig: Required<MockSafeActionClientConfig> = {
-    defaultServerError: config?.defaultServerError || 'Something went wrong',
-    isProduction: config?.isProduction ?? false,
-    auth: {
-      enabled: config?.auth?.enabled ?? true,
-      testUserId: config?.auth?.testUserId || 'test-user-id',
-      testUserEmail: config?.auth?.testUserEmail || 'test@example.com',
-      testAuthToken: config?.auth?.testAuthToken || 'test-token',
-    },
-  };
+export function createAuthedActionClient<TServerError = string>(
+  config?: MockSafeActionClientConfig<TServerError>
+): MockSafeActionClient<TServerError, any, AuthContext> {
+  const requiredConfig = resolveClientConfig(config);
 
-  client.use(createAuthedMiddleware(requiredConfig));
-  return client;
+  return createBaseClient(config).use(createAuthedMiddleware(requiredConfig));
 }
 
 /**
@@ -50,23 +48,12 @@ export function createAuthedActionClient(
  *
  * Equivalent to: client.use(optionalAuthMiddleware)
  */
-export function createOptionalAuthActionClient(
-  config?: MockSafeActionClientConfig
-): MockSafeActionClient {
-  const client = createBaseClient(config);
-  const requiredConfig: Required<MockSafeActionClientConfig> = {
-    defaultServerError: config?.defaultServerError || 'Something went wrong',
-    isProduction: config?.isProduction ?? false,
-    auth: {
-      enabled: config?.auth?.enabled ?? true,
-      testUserId: config?.auth?.testUserId || 'test-user-id',
-      testUserEmail: config?.auth?.testUserEmail || 'test@example.com',
-      testAuthToken: config?.auth?.testAuthToken || 'test-token',
-    },
-  };
+export function createOptionalAuthActionClient<TServerError = string>(
+  config?: MockSafeActionClientConfig<TServerError>
+): MockSafeActionClient<TServerError, any, OptionalAuthContext> {
+  const requiredConfig = resolveClientConfig(config);
 
-  client.use(createOptionalAuthMiddleware(requiredConfig));
-  return client;
+  return createBaseClient(config).use(createOptionalAuthMiddleware(requiredConfig));
 }
 
 /**
@@ -74,13 +61,11 @@ export function createOptionalAuthActionClient(
  *
  * Equivalent to: client.use(rateLimitMiddleware)
  */
-export function createRateLimitedActionClient(
-  metadataSchema?: z.ZodType,
-  config?: MockSafeActionClientConfig
-): MockSafeActionClient {
-  const client = createBaseClient(config);
-  client.use(createRateLimitMiddleware(metadataSchema));
-  return client;
+export function createRateLimitedActionClient<TServerError = string>(
+  metadataSchema?: ZodCompatibleSchema,
+  config?: MockSafeActionClientConfig<TServerError>
+): MockSafeActionClient<TServerError> {
+  return createBaseClient(config).use(createRateLimitMiddleware(metadataSchema));
 }
 
 /**
@@ -88,13 +73,11 @@ export function createRateLimitedActionClient(
  *
  * Equivalent to: client.use(metadataValidationMiddleware)
  */
-export function createMetadataValidatedActionClient(
-  metadataSchema: z.ZodType,
-  config?: MockSafeActionClientConfig
-): MockSafeActionClient {
-  const client = createBaseClient(config);
-  client.use(createMetadataValidationMiddleware(metadataSchema));
-  return client;
+export function createMetadataValidatedActionClient<TServerError = string>(
+  metadataSchema: ZodCompatibleSchema,
+  config?: MockSafeActionClientConfig<TServerError>
+): MockSafeActionClient<TServerError> {
+  return createBaseClient(config).use(createMetadataValidationMiddleware(metadataSchema));
 }
 
 /**
@@ -102,50 +85,45 @@ export function createMetadataValidatedActionClient(
  *
  * Includes: error handling, rate limiting (with metadata validation), and authentication
  */
-export function createCompleteActionClient(
-  metadataSchema: z.ZodType,
-  config?: MockSafeActionClientConfig
+export function createCompleteActionClient<TServerError = string>(
+  metadataSchema: ZodCompatibleSchema,
+  config?: MockSafeActionClientConfig<TServerError>
 ): {
-  actionClient: MockSafeActionClient;
-  loggedAction: MockSafeActionClient;
-  rateLimitedAction: MockSafeActionClient;
-  authedAction: MockSafeActionClient;
-  optionalAuthAction: MockSafeActionClient;
+  actionClient: MockSafeActionClient<TServerError>;
+  loggedAction: MockSafeActionClient<TServerError>;
+  rateLimitedAction: MockSafeActionClient<TServerError>;
+  authedAction: MockSafeActionClient<TServerError, any, AuthContext>;
+  optionalAuthAction: MockSafeActionClient<TServerError, any, OptionalAuthContext>;
 } {
-  const requiredConfig: Required<MockSafeActionClientConfig> = {
-    defaultServerError: config?.defaultServerError || 'Something went wrong',
-    isProduction: config?.isProduction ?? false,
-    auth: {
-      enabled: config?.auth?.enabled ?? true,
-      testUserId: config?.auth?.testUserId || 'test-user-id',
-      testUserEmail: config?.auth?.testUserEmail || 'test@example.com',
-      testAuthToken: config?.auth?.testAuthToken || 'test-token',
-    },
-  };
+  const requiredConfig = resolveClientConfig(config);
+  const errorHandlingMiddleware = createErrorHandlingMiddleware(requiredConfig);
+  const rateLimitMiddleware = createRateLimitMiddleware(metadataSchema);
+
+  // Each client starts from its own base client: with mutableUse, use() changes the client
+  // it is called on, so chaining from a shared client would leak middleware into it
 
   // Base action client
   const actionClient = createBaseClient(config);
 
   // Logged action (with error handling)
-  const loggedAction = createBaseClient(config);
-  loggedAction.use(createErrorHandlingMiddleware(requiredConfig));
+  const loggedAction = createBaseClient(config).use(errorHandlingMiddleware);
 
   // Rate limited action (with metadata validation)
-  const rateLimitedAction = createBaseClient(config);
-  rateLimitedAction.use(createErrorHandlingMiddleware(requiredConfig));
-  rateLimitedAction.use(createRateLimitMiddleware(metadataSchema));
+  const rateLimitedAction = createBaseClient(config)
+    .use(errorHandlingMiddleware)
+    .use(rateLimitMiddleware);
 
   // Authed action
-  const authedAction = createBaseClient(config);
-  authedAction.use(createErrorHandlingMiddleware(requiredConfig));
-  authedAction.use(createRateLimitMiddleware(metadataSchema));
-  authedAction.use(createAuthedMiddleware(requiredConfig));
+  const authedAction = createBaseClient(config)
+    .use(errorHandlingMiddleware)
+    .use(rateLimitMiddleware)
+    .use(createAuthedMiddleware(requiredConfig));
 
   // Optional auth action
-  const optionalAuthAction = createBaseClient(config);
-  optionalAuthAction.use(createErrorHandlingMiddleware(requiredConfig));
-  optionalAuthAction.use(createRateLimitMiddleware(metadataSchema));
-  optionalAuthAction.use(createOptionalAuthMiddleware(requiredConfig));
+  const optionalAuthAction = createBaseClient(config)
+    .use(errorHandlingMiddleware)
+    .use(rateLimitMiddleware)
+    .use(createOptionalAuthMiddleware(requiredConfig));
 
   return {
     actionClient,
@@ -155,4 +133,3 @@ export function createCompleteActionClient(
     optionalAuthAction,
   };
 }
-
@@ -0,0 +1,389 @@
+'use client';
+
+/**
+ * Client hooks for safemocker (safemocker/hooks)
+ *
+ * Mocks next-safe-action/hooks: useAction, useOptimisticAction and useStateAction run mock
+ * actions from client components, with the same status, result and callbacks as the real hooks.
+ * Use them with React Testing Library (renderHook, waitFor) in a jsdom environment.
+ *
+ * @example
+ * ```typescript
+ * // __mocks__/next-safe-action/hooks.ts
+ * export { useAction, useOptimisticAction, useStateAction } from '@jsonbored/safemocker/hooks';
+ * ```
+ */
+
+import * as React from 'react';
+import { getNavigationKind, isNavigationError } from './navigation';
+import type {
+  AnyValidationErrors,
+  HookActionStatus,
+  HookCallbacks,
+  HookSafeActionFn,
+  HookSafeStateActionFn,
+  HookShorthandStatus,
+  SafeActionResult,
+  UseActionHookReturn,
+  UseOptimisticActionHookReturn,
+  UseStateActionHookReturn,
+} from './types';
+
+/**
+ * Returns the status of an action from the hook state (next-safe-action's getActionStatus)
+ */
+function getActionStatus({
+  isIdle,
+  isExecuting,
+  isTransitioning,
+  result,
+  hasNavigated,
+  hasThrownError,
+}: {
+  isIdle: boolean;
+  isExecuting: boolean;
+  isTransitioning: boolean;
+  result: SafeActionResult<unknown, unknown, unknown>;
+  hasNavigated: boolean;
+  hasThrownError: boolean;
+}): HookActionStatus {
+  if (isIdle) {
+    return 'idle';
+  }
+  if (isExecuting) {
+    return 'executing';
+  }
+  if (isTransitioning) {
+    return 'transitioning';
+  }
+  if (
+    hasThrownError ||
+    result.validationErrors !== undefined ||
+    result.serverError !== undefined ||
+    result.bindArgsValidationErrors !== undefined
+  ) {
+    return 'hasErrored';
+  }
+  // Navigation errors recorded in the result (navigationErrors: 'record') count as navigations
+  if (hasNavigated || result.navigation !== undefined) {
+    return 'hasNavigated';
+  }
+  return 'hasSucceeded';
+}
+
+/**
+ * Returns the shorthand status flags for a status
+ */
+function getShorthandStatus(status: HookActionStatus): HookShorthandStatus {
+  return {
+    isIdle: status === 'idle',
+    isExecuting: status === 'executing',
+    isTransitioning: status === 'transitioning',
+    isPending: status === 'executing' || status === 'transitioning',
+    hasSucceeded: status === 'hasSucceeded',
+    hasErrored: status === 'hasErrored',
+    hasNavigated: status === 'hasNavigated',
+  };
+}
+
+/**
+ * Keeps the latest callback in a ref, so new callback props don't rerun the callbacks effect
+ */
+function useCallbackRef<TArgs>(
+  callback: ((args: TArgs) => unknown) | undefined
+): (args: TArgs) => unknown {
+  const callbackRef = React.useRef(callback);
+  React.useEffect(() => {
+    callbackRef.current = callback;
+  });
+  return React.useMemo(() => (args: TArgs) => callbackRef.current?.(args), []);
+}
+
+/**
+ * Runs the hook callbacks when the status changes (next-safe-action's useActionCallbacks)
+ */
+function useActionCallbacks<TOutput, TServerError, TValidationErrors>({
+  result,
+  input,
+  status,
+  navigationError,
+  thrownError,
+  cb,
+}: {
+  result: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+  input: unknown;
+  status: HookActionStatus;
+  navigationError: unknown;
+  thrownError: Error | null;
+  cb?: HookCallbacks<TOutput, TServerError, TValidationErrors>;
+}): void {
+  const onExecute = useCallbackRef(cb?.onExecute);
+  const onSuccess = useCallbackRef(cb?.onSuccess);
+  const onError = useCallbackRef(cb?.onError);
+  const onSettled = useCallbackRef(cb?.onSettled);
+  const onNavigation = useCallbackRef(cb?.onNavigation);
+
+  React.useLayoutEffect(() => {
+    const executeCallbacks = async (): Promise<void> => {
+      switch (status) {
+        case 'executing':
+          await onExecute({ input });
+          break;
+        case 'hasSucceeded':
+          await Promise.all([
+            onSuccess({ data: result.data, input }),
+            onSettled({ result, input }),
+          ]);
+          break;
+        case 'hasErrored':
+          await Promise.all([
+            onError({ error: { ...result, ...(thrownError ? { thrownError } : {}) }, input }),
+            onSettled({ result, input }),
+          ]);
+          break;
+        case 'hasNavigated': {
+          // Thrown by the action (navigationErrors: 'rethrow') or recorded in the result
+          const navigationKind = navigationError
+            ? getNavigationKind(navigationError)
+            : result.navigation?.kind;
+          if (navigationKind === undefined) {
+            break;
+          }
+          await Promise.all([
+            onNavigation({ input, navigationKind }),
+            onSettled({ result, input, navigationKind }),
+          ]);
+          break;
+        }
+        default:
+          break;
+      }
+    };
+    // Like next-safe-action, errors thrown by callbacks are logged, not surfaced to the component
+    // eslint-disable-next-line no-console
+    executeCallbacks().catch(console.error);
+  }, [
+    input,
+    status,
+    result,
+    navigationError,
+    thrownError,
+    onExecute,
+    onSuccess,
+    onError,
+    onSettled,
+    onNavigation,
+  ]);
+}
+
+/**
+ * Shared state and execute functions of useAction and useOptimisticAction
+ * setOptimisticValue is called with the input inside the transition (useOptimisticAction).
+ */
+function useActionExecution<TOutput, TServerError, TValidationErrors>(
+  safeActionFn: HookSafeActionFn<TOutput, TServerError, TValidationErrors>,
+  cb: HookCallbacks<TOutput, TServerError, TValidationErrors> | undefined,
+  setOptimisticValue?: (input: unknown) => void
+): UseActionHookReturn<TOutput, TServerError, TValidationErrors> {
+  const [isTransitioning, startTransition] = React.useTransition();
+  const [result, setResult] = React.useState<
+    SafeActionResult<TOutput, TServerError, TValidationErrors>
+  >({});
+  const [clientInput, setClientInput] = React.useState<unknown>();
+  const [isExecuting, setIsExecuting] = React.useState(false);
+  const [navigationError, setNavigationError] = React.useState<unknown>(null);
+  const [thrownError, setThrownError] = React.useState<Error | null>(null);
+  const [isIdle, setIsIdle] = React.useState(true);
+
+  const status = getActionStatus({
+    isIdle,
+    isExecuting,
+    isTransitioning,
+    result,
+    hasNavigated: navigationError !== null,
+    hasThrownError: thrownError !== null,
+  });
+
+  // Runs the action in a transition and stores its result
+  // Navigation errors are kept for the callbacks, other errors are rethrown to the caller
+  const run = React.useCallback(
+    (
+      input: unknown,
+      resolve: (result: SafeActionResult<TOutput, TServerError, TValidationErrors>) => void,
+      reject: (error: unknown) => void
+    ) => {
+      // Set synchronously: next-safe-action defers this with setTimeout, which would run after
+      // mock actions that resolve immediately and leave the status on 'executing'
+      setIsIdle(false);
+      setNavigationError(null);
+      setThrownError(null);
+      setClientInput(input);
+      setIsExecuting(true);
+
+      // The transition lasts until the action settles, so the optimistic state is kept meanwhile
+      startTransition(() => {
+        setOptimisticValue?.(input);
+        return safeActionFn(input)
+          .then((res) => {
+            setResult(res ?? {});
+            resolve(res);
+          })
+          .catch((error: unknown) => {
+            setResult({});
+            if (isNavigationError(error)) {
+              setNavigationError(error);
+              return;
+            }
+            setThrownError(error as Error);
+            reject(error);
+          })
+          .finally(() => {
+            setIsExecuting(false);
+          });
+      });
+    },
+    [safeActionFn, setOptimisticValue]
+  );
+
+  const execute = React.useCallback(
+    (input?: unknown) => {
+      // Thrown errors are reported through status and onError only (next-safe-action also rethrows
+      // them as an unhandled rejection, which would fail the test run)
+      run(
+        input,
+        () => {},
+        () => {}
+      );
+    },
+    [run]
+  );
+
+  const executeAsync = React.useCallback(
+    (input?: unknown) =>
+      new Promise<SafeActionResult<TOutput, TServerError, TValidationErrors> | undefined>(
+        (resolve, reject) => run(input, resolve, reject)
+      ),
+    [run]
+  );
+
+  const reset = React.useCallback(() => {
+    setIsIdle(true);
+    setNavigationError(null);
+    setThrownError(null);
+    setClientInput(undefined);
+    setResult({});
+  }, []);
+
+  useActionCallbacks({ result, input: clientInput, status, navigationError, thrownError, cb });
+
+  return {
+    execute,
+    executeAsync,
+    input: clientInput,
+    result,
+    reset,
+    status,
+    ...getShorthandStatus(status),
+  };
+}
+
+/**
+ * Executes a mock action from a client component (next-safe-action's useAction)
+ *
+ * execute() runs the action in a transition, executeAsync() also resolves with its result.
+ * status goes from 'idle' to 'executing' to 'hasSucceeded', 'hasErrored' or 'hasNavigated'.
+ */
+export function useAction<TOutput, TServerError = string, TValidationErrors = AnyValidationErrors>(
+  safeActionFn: HookSafeActionFn<TOutput, TServerError, TValidationErrors>,
+  cb?: HookCallbacks<TOutput, TServerError, TValidationErrors>
+): UseActionHookReturn<TOutput, TServerError, TValidationErrors> {
+  return useActionExecution(safeActionFn, cb);
+}
+
+/**
+ * Executes a mock action with an optimistic state update (next-safe-action's useOptimisticAction)
+ *
+ * optimisticState is updateFn(currentState, input) while the action runs, then currentState again.
+ */
+export function useOptimisticAction<
+  TOutput,
+  TState,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+>(
+  safeActionFn: HookSafeActionFn<TOutput, TServerError, TValidationErrors>,
+  utils: {
+    currentState: TState;
+    updateFn: (state: TState, input: any) => TState;
+  } & HookCallbacks<TOutput, TServerError, TValidationErrors>
+): UseOptimisticActionHookReturn<TOutput, TState, TServerError, TValidationErrors> {
+  const [optimisticState, setOptimisticValue] = React.useOptimistic(
+    utils.currentState,
+    utils.updateFn
+  );
+  const action = useActionExecution(safeActionFn, utils, setOptimisticValue);
+
+  return { ...action, optimisticState };
+}
+
+/**
+ * Executes a mock state action through React's useActionState (next-safe-action's useStateAction)
+ *
+ * The action must be defined with .stateAction(). initResult is the result before the first run.
+ */
+export function useStateAction<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+>(
+  safeActionFn: HookSafeStateActionFn<TOutput, TServerError, TValidationErrors>,
+  utils?: {
+    initResult?: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+    permalink?: string;
+  } & Omit<HookCallbacks<TOutput, TServerError, TValidationErrors>, 'onNavigation'>
+): UseStateActionHookReturn<TOutput, TServerError, TValidationErrors> {
+  const [result, dispatcher, isExecuting] = React.useActionState<
+    SafeActionResult<TOutput, TServerError, TValidationErrors>,
+    unknown
+  >(safeActionFn, utils?.initResult ?? {}, utils?.permalink);
+  const [isIdle, setIsIdle] = React.useState(true);
+  const [isTransitioning, startTransition] = React.useTransition();
+  const [clientInput, setClientInput] = React.useState<unknown>();
+
+  const status = getActionStatus({
+    isIdle,
+    isExecuting,
+    isTransitioning,
+    result: result ?? {},
+    hasNavigated: false,
+    hasThrownError: false,
+  });
+
+  const execute = React.useCallback(
+    (input?: unknown) => {
+      setIsIdle(false);
+      setClientInput(input);
+      startTransition(() => {
+        dispatcher(input);
+      });
+    },
+    [dispatcher]
+  );
+
+  useActionCallbacks({
+    result: result ?? {},
+    input: clientInput,
+    status,
+    navigationError: null,
+    thrownError: null,
+    cb: utils,
+  });
+
+  return {
+    execute,
+    input: clientInput,
+    result,
+    status,
+    ...getShorthandStatus(status),
+  };
+}
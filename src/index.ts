@@ -8,8 +8,13 @@
 export * from './types';
 export * from './result-wrapper';
 export * from './validation';
+export * from './zod-compat';
 export * from './error-handler';
+export * from './errors';
+export * from './navigation';
+export * from './form-data';
+export * from './action-calls';
+export * from './matchers';
 export * from './client';
 export * from './middleware';
 export * from './helpers';
-
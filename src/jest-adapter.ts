@@ -18,8 +18,23 @@
  *
  * export const DEFAULT_SERVER_ERROR_MESSAGE = 'Something went wrong';
  * ```
+ *
+ * @example
+ * ```typescript
+ * // jest.setup.ts
+ * import { safeActionMatchers } from 'safemocker/jest';
+ *
+ * expect.extend(safeActionMatchers);
+ * ```
+ *
+ * Importing this adapter also types the matchers, on the global expect (@types/jest)
+ * and on the expect of @jest/globals.
  */
 
+// Loads the types of expect (used by @jest/globals), so the augmentation below applies
+import type {} from 'expect';
+import type { SafeActionMatchers } from './types';
+
 export {
   createMockSafeActionClient,
   createAuthedActionClient,
@@ -28,5 +43,21 @@ export {
   createMetadataValidatedActionClient,
   createCompleteActionClient,
 } from './helpers';
-export type { MockSafeActionClientConfig } from './types';
+export { createFormData, formDataToObject } from './form-data';
+export { safeActionMatchers } from './matchers';
+export type { MockSafeActionClientConfig, SafeActionMatchers } from './types';
+
+// Types the matchers on the expect of @jest/globals
+declare module 'expect' {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+  interface Matchers<R extends void | Promise<void>, T = unknown> extends SafeActionMatchers<R> {}
+}
 
+// Types the matchers on the global expect (@types/jest)
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+    interface Matchers<R, T = {}> extends SafeActionMatchers<R> {}
+  }
+}
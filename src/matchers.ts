@@ -0,0 +1,284 @@
+/**
+ * Custom matchers for SafeActionResult
+ *
+ * Work with both Jest and Vitest: register them with expect.extend(safeActionMatchers)
+ * (re-exported by safemocker/jest and safemocker/vitest).
+ */
+
+import type { SafeActionResult } from './types';
+
+/**
+ * Part of the matcher context (this) shared by Jest and Vitest that the matchers use
+ */
+interface MatcherContext {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+  utils: {
+    matcherHint(
+      matcherName: string,
+      received?: string,
+      expected?: string,
+      options?: { isNot?: boolean }
+    ): string;
+    printExpected(value: unknown): string;
+    printReceived(value: unknown): string;
+    diff(a: unknown, b: unknown): string | null | undefined;
+  };
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+type AnyResult = SafeActionResult<unknown, unknown, any>;
+
+/**
+ * Returns the errors of a result (every field that makes it a failure)
+ */
+function getResultErrors(result: AnyResult): Partial<AnyResult> {
+  const errors: Partial<AnyResult> = {};
+  if (result.serverError !== undefined) {
+    errors.serverError = result.serverError;
+  }
+  if (result.validationErrors !== undefined) {
+    errors.validationErrors = result.validationErrors;
+  }
+  if (result.bindArgsValidationErrors !== undefined) {
+    errors.bindArgsValidationErrors = result.bindArgsValidationErrors;
+  }
+  return errors;
+}
+
+/**
+ * Returns the validation messages of a result at a dotted path
+ *
+ * Reads fieldErrors (set for input validation errors whatever their shape), then validationErrors
+ * keyed by path (output validation errors) or in the formatted shape ({ field: { _errors } }).
+ */
+function getValidationMessages(result: AnyResult, path: string): string[] {
+  if (result.fieldErrors?.[path]) {
+    return result.fieldErrors[path];
+  }
+
+  const validationErrors = result.validationErrors ?? {};
+  if (Array.isArray(validationErrors[path])) {
+    return validationErrors[path];
+  }
+
+  let current = validationErrors;
+  for (const segment of path === '' ? [] : path.split('.')) {
+    current = current?.[segment];
+  }
+  return Array.isArray(current?._errors) ? current._errors : [];
+}
+
+/**
+ * Returns every message of validation errors in any shape (formatted or flattened)
+ */
+function getAllMessages(validationErrors: unknown): string[] {
+  if (Array.isArray(validationErrors)) {
+    return validationErrors.filter((message) => typeof message === 'string');
+  }
+  if (typeof validationErrors === 'object' && validationErrors !== null) {
+    return Object.values(validationErrors).flatMap(getAllMessages);
+  }
+  return [];
+}
+
+/**
+ * Checks whether one of the messages matches the expected message (all messages if none)
+ */
+function hasMessage(messages: readonly string[], expected: string | RegExp | undefined): boolean {
+  if (expected === undefined) {
+    return messages.length > 0;
+  }
+  return messages.some((message) =>
+    typeof expected === 'string' ? message === expected : expected.test(message)
+  );
+}
+
+/**
+ * Fails matchers called on something that is not a result object
+ */
+function invalidResult(
+  context: MatcherContext,
+  matcherName: string,
+  received: unknown
+): MatcherResult {
+  const hint = context.utils.matcherHint(matcherName, undefined, undefined, {
+    isNot: context.isNot,
+  });
+  return {
+    pass: context.isNot,
+    message: () =>
+      formatMessage(hint, [
+        `Expected a SafeActionResult object, received: ${context.utils.printReceived(received)}`,
+      ]),
+  };
+}
+
+/**
+ * Joins the lines of a matcher message, skipping empty ones
+ */
+function formatMessage(hint: string, lines: (string | false)[]): string {
+  return `${hint}\n\n${lines.filter(Boolean).join('\n')}`;
+}
+
+function isResult(received: unknown): received is AnyResult {
+  return typeof received === 'object' && received !== null;
+}
+
+/**
+ * Matchers to pass to expect.extend()
+ *
+ * @example
+ * ```typescript
+ * expect.extend(safeActionMatchers);
+ *
+ * expect(await createPost({ title: 'Hello' })).toBeActionSuccess({ id: '1', title: 'Hello' });
+ * expect(await createPost({ title: '' })).toHaveValidationError('title', 'Title is required');
+ * ```
+ */
+export const safeActionMatchers = {
+  toBeActionSuccess(this: MatcherContext, received: unknown, data?: unknown): MatcherResult {
+    if (!isResult(received)) {
+      return invalidResult(this, 'toBeActionSuccess', received);
+    }
+
+    const errors = getResultErrors(received);
+    const hasErrors = Object.keys(errors).length > 0;
+    const checkData = arguments.length > 1;
+    const dataMatches = !checkData || this.equals(received.data, data);
+    const hint = this.utils.matcherHint('toBeActionSuccess', undefined, checkData ? 'data' : '', {
+      isNot: this.isNot,
+    });
+
+    return {
+      pass: !hasErrors && dataMatches,
+      message: () => {
+        if (this.isNot) {
+          return formatMessage(hint, [
+            `Expected the action to fail, received: ${this.utils.printReceived(received)}`,
+          ]);
+        }
+        if (hasErrors) {
+          return formatMessage(hint, [
+            `Expected no errors, received: ${this.utils.printReceived(errors)}`,
+          ]);
+        }
+        // diff() returns nothing for asymmetric matchers like expect.anything()
+        const diff = this.utils.diff(data, received.data);
+        return formatMessage(
+          hint,
+          diff
+            ? [diff]
+            : [
+                `Expected data: ${this.utils.printExpected(data)}`,
+                `Received data: ${this.utils.printReceived(received.data)}`,
+              ]
+        );
+      },
+    };
+  },
+
+  toHaveServerError(this: MatcherContext, received: unknown, serverError?: unknown): MatcherResult {
+    if (!isResult(received)) {
+      return invalidResult(this, 'toHaveServerError', received);
+    }
+
+    const checkServerError = arguments.length > 1;
+    const hint = this.utils.matcherHint(
+      'toHaveServerError',
+      undefined,
+      checkServerError ? 'serverError' : '',
+      { isNot: this.isNot }
+    );
+    const pass =
+      received.serverError !== undefined &&
+      (!checkServerError || this.equals(received.serverError, serverError));
+
+    return {
+      pass,
+      message: () => {
+        // Show a diff when both server errors are set but differ
+        const diff =
+          !this.isNot &&
+          checkServerError &&
+          received.serverError !== undefined &&
+          this.utils.diff(serverError, received.serverError);
+        if (diff) {
+          return formatMessage(hint, [diff]);
+        }
+        return formatMessage(hint, [
+          checkServerError &&
+            `Expected: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(serverError)}`,
+          `Received serverError: ${this.utils.printReceived(received.serverError)}`,
+        ]);
+      },
+    };
+  },
+
+  toHaveValidationError(
+    this: MatcherContext,
+    received: unknown,
+    path: string,
+    message?: string | RegExp
+  ): MatcherResult {
+    if (!isResult(received)) {
+      return invalidResult(this, 'toHaveValidationError', received);
+    }
+
+    const messages = getValidationMessages(received, path);
+    const hint = this.utils.matcherHint('toHaveValidationError', undefined, 'path, message', {
+      isNot: this.isNot,
+    });
+
+    return {
+      pass: hasMessage(messages, message),
+      message: () =>
+        formatMessage(hint, [
+          `Path: ${this.utils.printExpected(path)}`,
+          message !== undefined &&
+            `Expected message: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(message)}`,
+          `Received messages: ${this.utils.printReceived(messages)}`,
+          `Received validationErrors: ${this.utils.printReceived(received.validationErrors)}`,
+        ]),
+    };
+  },
+
+  toHaveBindArgsValidationError(
+    this: MatcherContext,
+    received: unknown,
+    index?: number,
+    message?: string | RegExp
+  ): MatcherResult {
+    if (!isResult(received)) {
+      return invalidResult(this, 'toHaveBindArgsValidationError', received);
+    }
+
+    const bindArgsErrors = received.bindArgsValidationErrors ?? [];
+    const argsErrors =
+      index === undefined ? bindArgsErrors : bindArgsErrors.slice(index, index + 1);
+    const messages = argsErrors.flatMap(getAllMessages);
+    const hint = this.utils.matcherHint(
+      'toHaveBindArgsValidationError',
+      undefined,
+      'index, message',
+      { isNot: this.isNot }
+    );
+
+    return {
+      pass: hasMessage(messages, message),
+      message: () =>
+        formatMessage(hint, [
+          index !== undefined && `Bound argument: ${this.utils.printExpected(index)}`,
+          message !== undefined &&
+            `Expected message: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(message)}`,
+          `Received bindArgsValidationErrors: ${this.utils.printReceived(
+            received.bindArgsValidationErrors
+          )}`,
+        ]),
+    };
+  },
+};
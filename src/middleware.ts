@@ -4,9 +4,17 @@
  * Provides pre-built middleware for authentication, metadata validation, etc.
  */
 
-import { z } from 'zod';
-import type { Middleware, MockSafeActionClientConfig } from './types';
+import type {
+  DefinedMiddlewareFn,
+  Middleware,
+  MiddlewareBase,
+  ResolvedMockSafeActionClientConfig,
+  AuthContext,
+  OptionalAuthContext,
+  ZodCompatibleSchema,
+} from './types';
 import { handleError } from './error-handler';
+import { isZodError } from './zod-compat';
 
 /**
  * Creates authentication middleware that requires authentication
@@ -14,16 +22,17 @@ import { handleError } from './error-handler';
  * Injects test user context when auth is enabled in config
  */
 export function createAuthedMiddleware(
-  config: Required<MockSafeActionClientConfig>
-): Middleware {
+  config: ResolvedMockSafeActionClientConfig<unknown>
+): Middleware<object, any, AuthContext> {
   return async ({ next, ctx = {}, metadata }) => {
     if (!config.auth.enabled) {
       // Auth disabled, proceed with existing context (pass existing ctx in correct format)
-      return next({ ctx });
+      // The context is still typed as authenticated for handlers written against it
+      return next({ ctx: ctx as AuthContext });
     }
 
     // Inject test user context (next-safe-action format: { ctx: newContext })
-    const authCtx = {
+    const authCtx: AuthContext = {
       userId: config.auth.testUserId,
       userEmail: config.auth.testUserEmail,
       authToken: config.auth.testAuthToken,
@@ -40,16 +49,17 @@ export function createAuthedMiddleware(
  * Injects test user context when auth is enabled, but doesn't require it
  */
 export function createOptionalAuthMiddleware(
-  config: Required<MockSafeActionClientConfig>
-): Middleware {
+  config: ResolvedMockSafeActionClientConfig<unknown>
+): Middleware<object, any, OptionalAuthContext> {
   return async ({ next, ctx = {}, metadata }) => {
     if (!config.auth.enabled) {
       // Auth disabled, proceed with existing context (pass existing ctx in correct format)
-      return next({ ctx });
+      // The context is still typed as authenticated for handlers written against it
+      return next({ ctx: ctx as OptionalAuthContext });
     }
 
     // Inject optional test user context (next-safe-action format: { ctx: newContext })
-    const authCtx = {
+    const authCtx: OptionalAuthContext = {
       user: {
         id: config.auth.testUserId,
         email: config.auth.testUserEmail,
@@ -70,7 +80,7 @@ export function createOptionalAuthMiddleware(
  * Validates metadata against a Zod schema before proceeding
  */
 export function createMetadataValidationMiddleware(
-  metadataSchema: z.ZodType
+  metadataSchema: ZodCompatibleSchema
 ): Middleware {
   return async ({ next, ctx = {}, metadata }) => {
     try {
@@ -78,7 +88,7 @@ export function createMetadataValidationMiddleware(
       // Metadata is valid, proceed (pass existing ctx in correct format)
       return next({ ctx });
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (isZodError(error)) {
         throw new Error('Invalid action metadata');
       }
       throw error;
@@ -92,9 +102,7 @@ export function createMetadataValidationMiddleware(
  * In tests, rate limiting is typically skipped, but this middleware
  * validates metadata is present (required for rate limiting logic)
  */
-export function createRateLimitMiddleware(
-  metadataSchema?: z.ZodType
-): Middleware {
+export function createRateLimitMiddleware(metadataSchema?: ZodCompatibleSchema): Middleware {
   return async ({ next, ctx = {}, metadata }) => {
     // In tests, we typically skip actual rate limiting
     // But we validate metadata if schema is provided AND metadata is present
@@ -102,7 +110,7 @@ export function createRateLimitMiddleware(
       try {
         metadataSchema.parse(metadata);
       } catch (error) {
-        if (error instanceof z.ZodError) {
+        if (isZodError(error)) {
           throw new Error('Invalid action configuration');
         }
         throw error;
@@ -120,7 +128,7 @@ export function createRateLimitMiddleware(
  * Catches errors and converts them to SafeActionResult
  */
 export function createErrorHandlingMiddleware(
-  config: Required<MockSafeActionClientConfig>
+  config: ResolvedMockSafeActionClientConfig<unknown>
 ): Middleware {
   return async ({ next, ctx = {} }) => {
     try {
@@ -133,3 +141,23 @@ export function createErrorHandlingMiddleware(
   };
 }
 
+/**
+ * Creates standalone middleware (next-safe-action's createMiddleware)
+ *
+ * The type argument declares what the middleware needs: the ctx set by previous middleware
+ * and the metadata type. client.use() only accepts the middleware on clients that provide them.
+ *
+ * @example
+ * ```typescript
+ * const requireAdmin = createMiddleware<{ ctx: { userId: string }; metadata: Meta }>().define(
+ *   async ({ next, ctx }) => next({ ctx: { isAdmin: ctx.userId === 'admin' } })
+ * );
+ * ```
+ */
+export function createMiddleware<TBase extends MiddlewareBase = object>(): {
+  define: <TNextCtx extends Record<string, any> = object>(
+    middleware: DefinedMiddlewareFn<TBase, TNextCtx>
+  ) => DefinedMiddlewareFn<TBase, TNextCtx>;
+} {
+  return { define: (middleware) => middleware };
+}
@@ -0,0 +1,95 @@
+/**
+ * Next.js navigation errors
+ *
+ * redirect(), notFound(), forbidden() and unauthorized() work by throwing errors that
+ * Next.js recognizes by their digest. next-safe-action lets them through instead of
+ * converting them to a serverError, and so does the mock.
+ */
+
+import type { NavigationKind, NavigationOutcome } from './types';
+
+const REDIRECT_ERROR_CODE = 'NEXT_REDIRECT';
+const HTTP_ERROR_FALLBACK_ERROR_CODE = 'NEXT_HTTP_ERROR_FALLBACK';
+// notFound() digest before Next.js 15
+const NOT_FOUND_ERROR_CODE = 'NEXT_NOT_FOUND';
+// Other framework errors that must not be caught (dynamic rendering bailouts)
+const OTHER_FRAMEWORK_ERROR_CODES = ['DYNAMIC_SERVER_USAGE', 'BAILOUT_TO_CLIENT_SIDE_RENDERING'];
+
+/**
+ * Returns the digest of a thrown value, if any
+ */
+function getDigest(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null || !('digest' in error)) {
+    return undefined;
+  }
+  const { digest } = error as { digest: unknown };
+  return typeof digest === 'string' ? digest : undefined;
+}
+
+/**
+ * Checks whether an error was thrown by a Next.js navigation function (or another framework error)
+ */
+export function isNavigationError(error: unknown): boolean {
+  const digest = getDigest(error);
+  if (!digest) {
+    return false;
+  }
+  const [errorCode] = digest.split(';', 1);
+  return (
+    errorCode === REDIRECT_ERROR_CODE ||
+    errorCode === HTTP_ERROR_FALLBACK_ERROR_CODE ||
+    errorCode === NOT_FOUND_ERROR_CODE ||
+    OTHER_FRAMEWORK_ERROR_CODES.includes(errorCode)
+  );
+}
+
+/**
+ * Returns the navigation kind of a navigation error (next-safe-action's navigationKind)
+ */
+export function getNavigationKind(error: unknown): NavigationKind {
+  const digest = getDigest(error) ?? '';
+  const [errorCode, statusCode] = digest.split(';');
+
+  if (errorCode === REDIRECT_ERROR_CODE) {
+    return 'redirect';
+  }
+  if (errorCode === NOT_FOUND_ERROR_CODE) {
+    return 'notFound';
+  }
+  if (errorCode === HTTP_ERROR_FALLBACK_ERROR_CODE) {
+    switch (statusCode) {
+      case '404':
+        return 'notFound';
+      case '403':
+        return 'forbidden';
+      case '401':
+        return 'unauthorized';
+    }
+  }
+  return 'other';
+}
+
+/**
+ * Describes the navigation triggered by a navigation error, including the redirect target
+ *
+ * @example
+ * ```typescript
+ * getNavigationOutcome(redirectError);
+ * // { kind: 'redirect', url: '/posts/1', redirectType: 'replace', statusCode: 307 }
+ * ```
+ */
+export function getNavigationOutcome(error: unknown): NavigationOutcome {
+  const kind = getNavigationKind(error);
+  if (kind !== 'redirect') {
+    return { kind };
+  }
+
+  // Digest format: NEXT_REDIRECT;<type>;<url>;<statusCode>; (the url may contain ';')
+  const parts = (getDigest(error) as string).split(';');
+  return {
+    kind,
+    url: parts.slice(2, -2).join(';'),
+    redirectType: parts[1] as NavigationOutcome['redirectType'],
+    statusCode: Number(parts[parts.length - 2]),
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Drop-in mock of the next-safe-action module (safemocker/next-safe-action)
+ *
+ * Exports the same functions and constants as next-safe-action, backed by the mock client,
+ * so jest.mock/vi.mock (or a moduleNameMapper) can point straight at it. The mock is configured
+ * once with setupSafeActionMock(), every createSafeActionClient() call then uses that config.
+ *
+ * @example
+ * ```typescript
+ * // jest.setup.ts
+ * import { setupSafeActionMock } from '@jsonbored/safemocker/next-safe-action';
+ *
+ * jest.mock('next-safe-action', () =>
+ *   jest.requireActual('@jsonbored/safemocker/next-safe-action')
+ * );
+ * setupSafeActionMock({ auth: { testUserId: 'user-1' } });
+ * ```
+ */
+
+import { createMockSafeActionClient, MockSafeActionClient } from './client';
+import type {
+  InferSchemaOutput,
+  MockSafeActionClientConfig,
+  StandardSchemaV1,
+  ValidationErrorsShape,
+} from './types';
+
+export {
+  ActionBindArgsValidationError,
+  ActionMetadataValidationError,
+  ActionOutputDataValidationError,
+  ActionValidationError,
+  returnValidationErrors,
+} from './errors';
+export { flattenValidationErrors, formatValidationErrors } from './validation';
+export { createMiddleware } from './middleware';
+export type * from './types';
+
+/**
+ * Default serverError message (same value as next-safe-action's)
+ */
+export const DEFAULT_SERVER_ERROR_MESSAGE = 'Something went wrong while executing the operation.';
+
+/**
+ * Options of createSafeActionClient (next-safe-action's CreateClientOpts)
+ */
+export interface CreateClientOpts<
+  TServerError = string,
+  TMetadataSchema extends StandardSchemaV1 | undefined = undefined,
+> {
+  defineMetadataSchema?: () => TMetadataSchema;
+  handleServerError?: MockSafeActionClientConfig<TServerError>['handleServerError'];
+  defaultValidationErrorsShape?: ValidationErrorsShape;
+  throwValidationErrors?: boolean;
+}
+
+// Mock config set by setupSafeActionMock(), shared by every client created afterwards
+let mockConfig: MockSafeActionClientConfig<any> = {};
+
+/**
+ * Configures the clients returned by createSafeActionClient() (auth, errors, ...)
+ *
+ * Call it before the modules that create their client are imported (e.g. in a setup file).
+ * The options passed to createSafeActionClient() win over this config. Call it without
+ * arguments to go back to the defaults.
+ */
+export function setupSafeActionMock(config: MockSafeActionClientConfig<any> = {}): void {
+  mockConfig = config;
+}
+
+/**
+ * Creates a mock safe action client (next-safe-action's createSafeActionClient)
+ *
+ * Like next-safe-action, errors without a handleServerError return DEFAULT_SERVER_ERROR_MESSAGE.
+ * Set isProduction: false in the setup config to get the error messages instead.
+ */
+export function createSafeActionClient<
+  TServerError = string,
+  TMetadataSchema extends StandardSchemaV1 | undefined = undefined,
+>(
+  createOpts?: CreateClientOpts<TServerError, TMetadataSchema>
+): MockSafeActionClient<
+  TServerError,
+  TMetadataSchema extends StandardSchemaV1 ? InferSchemaOutput<TMetadataSchema> : any
+> {
+  return createMockSafeActionClient({
+    defaultServerError: DEFAULT_SERVER_ERROR_MESSAGE,
+    isProduction: true,
+    ...mockConfig,
+    ...createOpts,
+  } as MockSafeActionClientConfig<TServerError, any>);
+}
@@ -1,10 +1,10 @@
-import type { SafeActionResult } from './types';
+import type { AnyValidationErrors, SafeActionResult } from './types';
 
 /**
  * Wraps handler result in SafeActionResult structure
  * Always includes all properties for consistency with real next-safe-action API
  */
-export function wrapResult<TData>(data: TData): SafeActionResult<TData> {
+export function wrapResult<TData>(data: TData): SafeActionResult<TData, never, never> {
   return {
     data,
     serverError: undefined,
@@ -17,7 +17,10 @@ export function wrapResult<TData>(data: TData): SafeActionResult<TData> {
  * Wraps error in SafeActionResult structure
  * Always includes all properties for consistency with real next-safe-action API
  */
-export function wrapError(error: unknown, defaultMessage: string): SafeActionResult<never> {
+export function wrapError(
+  error: unknown,
+  defaultMessage: string
+): SafeActionResult<never, string, never> {
   // For Error instances, use the error message if available, otherwise use default
   // For non-Error types, always use default message
   const message = error instanceof Error && error.message ? error.message : defaultMessage;
@@ -29,18 +32,50 @@ export function wrapError(error: unknown, defaultMessage: string): SafeActionRes
   };
 }
 
+/**
+ * Wraps a server error returned by handleServerError in SafeActionResult structure
+ * The value is used as-is, so custom shapes (e.g. { code, message }) are preserved
+ */
+export function wrapServerError<TServerError>(
+  serverError: TServerError
+): SafeActionResult<never, TServerError, never> {
+  return {
+    data: undefined,
+    serverError,
+    fieldErrors: undefined,
+    validationErrors: undefined,
+  };
+}
+
 /**
  * Wraps validation errors in SafeActionResult structure
+ * fieldErrors are keyed by dotted path, validationErrors use the configured shape
  * Always includes all properties for consistency with real next-safe-action API
  */
-export function wrapValidationErrors(
-  fieldErrors: Record<string, string[]>
-): SafeActionResult<never> {
+export function wrapValidationErrors<TValidationErrors = undefined>(
+  fieldErrors: Record<string, string[]>,
+  validationErrors?: TValidationErrors
+): SafeActionResult<never, never, TValidationErrors> {
   return {
     data: undefined,
     serverError: undefined,
     fieldErrors,
-    validationErrors: undefined,
+    validationErrors,
   };
 }
 
+/**
+ * Wraps bound argument validation errors in SafeActionResult structure
+ * Contains one entry per bound argument (empty object when that argument is valid)
+ */
+export function wrapBindArgsValidationErrors(
+  bindArgsValidationErrors: AnyValidationErrors[]
+): SafeActionResult<never, never, never> {
+  return {
+    data: undefined,
+    serverError: undefined,
+    fieldErrors: undefined,
+    validationErrors: undefined,
+    bindArgsValidationErrors,
+  };
+}
@@ -1,19 +1,183 @@
-import type { z } from 'zod';
+/**
+ * Standard Schema interface (https://standardschema.dev), implemented by Zod, Valibot, ArkType, ...
+ *
+ * Copied from the spec, so schemas of any validation library can be used without a dependency.
+ */
+export interface StandardSchemaV1<TInput = unknown, TOutput = TInput> {
+  readonly '~standard': StandardSchemaV1Props<TInput, TOutput>;
+}
+
+/**
+ * Properties of a Standard Schema (the '~standard' key)
+ */
+export interface StandardSchemaV1Props<TInput = unknown, TOutput = TInput> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaV1Result<TOutput> | Promise<StandardSchemaV1Result<TOutput>>;
+  readonly types?: { readonly input: TInput; readonly output: TOutput } | undefined;
+}
+
+/**
+ * Result of a Standard Schema validation: the parsed value or the issues
+ */
+export type StandardSchemaV1Result<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+/**
+ * Validation issue reported by a Standard Schema
+ * Path segments are property keys or { key } objects, depending on the library.
+ */
+export interface StandardSchemaV1Issue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Zod schema of either major version (v3 or v4), as used by safemocker
+ */
+export interface ZodCompatibleSchema<TOutput = unknown> {
+  parse(value: unknown): TOutput;
+  parseAsync(value: unknown): Promise<TOutput>;
+}
+
+/**
+ * ZodError of either major version (v3 or v4)
+ * Both expose the validation issues as issues, with the path as an array of keys.
+ */
+export interface ZodCompatibleError {
+  name: string;
+  message: string;
+  issues: ReadonlyArray<{ message: string; path: ReadonlyArray<PropertyKey> }>;
+}
+
+/**
+ * Input type of a schema (what clients pass)
+ */
+export type InferSchemaInput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema['~standard']['types']
+>['input'];
+
+/**
+ * Output type of a schema (what handlers receive once parsed)
+ */
+export type InferSchemaOutput<TSchema extends StandardSchemaV1> = NonNullable<
+  TSchema['~standard']['types']
+>['output'];
 
 /**
  * SafeActionResult structure returned by next-safe-action
+ *
+ * TServerError is the shape returned by handleServerError (string by default)
+ * TValidationErrors is the validation errors shape
+ * (formatted by default, see handleValidationErrorsShape)
  */
-export interface SafeActionResult<TData> {
+export interface SafeActionResult<
+  TData,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> {
   data?: TData;
-  serverError?: string;
+  serverError?: TServerError;
   fieldErrors?: Record<string, string[]>;
-  validationErrors?: Record<string, string[]>;
+  validationErrors?: TValidationErrors;
+  bindArgsValidationErrors?: AnyValidationErrors[];
+  /**
+   * Navigation triggered by redirect(), notFound(), ... (only with navigationErrors: 'record')
+   */
+  navigation?: NavigationOutcome;
+}
+
+/**
+ * Validation errors of any shape (formatted, flattened or custom)
+ *
+ * Output validation errors also use this field, keyed by dotted path.
+ */
+export type AnyValidationErrors = Record<string, any>;
+
+/**
+ * Validation errors list for a single level of a schema
+ */
+export interface ValidationErrorsList {
+  _errors?: string[];
+}
+
+/**
+ * Validation errors in next-safe-action's formatted shape, derived from a schema's input type
+ *
+ * @example { _errors: ['Form error'], email: { _errors: ['Email already taken'] } }
+ */
+export type SchemaValidationErrors<TInput> = ValidationErrorsList &
+  (TInput extends object ? { [K in keyof TInput]?: SchemaValidationErrors<TInput[K]> } : object);
+
+/**
+ * Formatted validation errors for a schema
+ */
+export type ValidationErrors<TSchema extends StandardSchemaV1> = SchemaValidationErrors<
+  InferSchemaInput<TSchema>
+>;
+
+/**
+ * Validation errors in next-safe-action's flattened shape
+ * Only top level field errors are kept, root errors become formErrors
+ *
+ * @example { formErrors: ['Form error'], fieldErrors: { email: ['Email already taken'] } }
+ */
+export interface FlattenedValidationErrors<
+  TValidationErrors extends ValidationErrorsList = ValidationErrorsList,
+> {
+  formErrors: string[];
+  fieldErrors: { [K in Exclude<keyof TValidationErrors, '_errors'>]?: string[] };
+}
+
+/**
+ * Built-in validation errors shapes (next-safe-action's defaultValidationErrorsShape)
+ */
+export type ValidationErrorsShape = 'formatted' | 'flattened';
+
+/**
+ * Utilities passed to handleServerError alongside the error
+ */
+export interface ServerErrorFunctionUtils {
+  clientInput: unknown;
+  bindArgsClientInputs: unknown[];
+  ctx: Record<string, any>;
+  metadata: any;
+}
+
+/**
+ * Customizes the validation errors returned in the result
+ *
+ * Receives formatted validation errors. Can be set on the client or per action
+ * via inputSchema(schema, { handleValidationErrorsShape }).
+ */
+export type HandleValidationErrorsShapeFn<
+  TValidationErrors extends ValidationErrorsList = ValidationErrorsList,
+  TShapedErrors = AnyValidationErrors,
+> = (
+  validationErrors: TValidationErrors,
+  utils: ServerErrorFunctionUtils
+) => TShapedErrors | Promise<TShapedErrors>;
+
+/**
+ * Options passed as second argument of .inputSchema()
+ */
+export interface InputSchemaUtils<
+  TSchema extends StandardSchemaV1,
+  TValidationErrors = AnyValidationErrors,
+> {
+  handleValidationErrorsShape?: HandleValidationErrorsShapeFn<
+    ValidationErrors<TSchema>,
+    TValidationErrors
+  >;
 }
 
 /**
  * Configuration for mock safe action client
  */
-export interface MockSafeActionClientConfig {
+export interface MockSafeActionClientConfig<TServerError = string, TMetadata = any> {
   defaultServerError?: string;
   isProduction?: boolean;
   auth?: {
@@ -22,27 +186,568 @@ export interface MockSafeActionClientConfig {
     testUserEmail?: string;
     testAuthToken?: string;
   };
+  /**
+   * Maps errors thrown in middleware or handlers to the serverError of the result
+   * (same as next-safe-action's handleServerError). Replaces the default/isProduction logic.
+   */
+  handleServerError?: (
+    error: Error,
+    utils: ServerErrorFunctionUtils
+  ) => TServerError | Promise<TServerError>;
+  /**
+   * Shape of input validation errors without handleValidationErrorsShape. Default: 'formatted'
+   */
+  defaultValidationErrorsShape?: ValidationErrorsShape;
+  /**
+   * Customizes input validation errors for every action of the client
+   * (overridden by the per action handleValidationErrorsShape)
+   */
+  handleValidationErrorsShape?: HandleValidationErrorsShapeFn<any>;
+  /**
+   * Schema every action's metadata must match (same as next-safe-action's defineMetadataSchema).
+   * Types .metadata() and middleware metadata.
+   * Missing or invalid metadata fails the action with a serverError.
+   * Accepts Zod or any Standard Schema.
+   */
+  defineMetadataSchema?: () => StandardSchemaV1<any, TMetadata>;
+  /**
+   * Compatibility option: use() adds middleware to the client itself and returns it,
+   * instead of returning a new client (next-safe-action behavior). Default: false
+   */
+  mutableUse?: boolean;
+  /**
+   * What happens when an action throws a Next.js navigation error (redirect(), notFound(), ...):
+   * 'rethrow' throws it from the action like next-safe-action,
+   * 'record' returns it as result.navigation.
+   * Default: 'rethrow'
+   */
+  navigationErrors?: 'rethrow' | 'record';
+  /**
+   * Throws an ActionValidationError instead of returning validation errors in the result
+   * (overridden by the per action throwValidationErrors). Default: false
+   */
+  throwValidationErrors?: boolean;
+  /**
+   * What FormData inputs are validated as: 'keep' passes the FormData to the input schema
+   * like next-safe-action (zod-form-data style schemas), 'object' converts it to a plain object
+   * first (repeated keys become arrays, files are kept). Default: 'keep'
+   */
+  formData?: 'keep' | 'object';
 }
 
+/**
+ * Mock client configuration with defaults applied
+ */
+export type ResolvedMockSafeActionClientConfig<TServerError = string> =
+  MockSafeActionClientConfig<TServerError> &
+    Required<Pick<MockSafeActionClientConfig, 'defaultServerError' | 'isProduction'>> & {
+      auth: Required<NonNullable<MockSafeActionClientConfig['auth']>>;
+    };
+
+/**
+ * Result returned by next() in middleware (next-safe-action's MiddlewareResult)
+ *
+ * Holds the result of the rest of the chain: the SafeActionResult fields plus success,
+ * the parsed inputs and the final ctx. Middleware can inspect it, or return a modified
+ * copy to post-process the action result. TNextCtx is the context passed to next({ ctx }),
+ * so .use() can infer the context a middleware adds from what it returns.
+ */
+export interface MiddlewareResult<
+  TServerError = any,
+  TNextCtx extends Record<string, any> = object,
+> extends SafeActionResult<any, TServerError> {
+  success: boolean;
+  parsedInput?: unknown;
+  bindArgsParsedInputs?: unknown[];
+  ctx?: TNextCtx;
+}
+
+/**
+ * next() function passed to middleware
+ *
+ * next({ ctx: newContext }) merges newContext into the context of the next middleware and
+ * the handler, and resolves with the result of the rest of the chain (errors are already
+ * converted to serverError)
+ */
+export type MiddlewareNext = <TNextCtx extends Record<string, any> = object>(params?: {
+  ctx?: TNextCtx;
+}) => Promise<MiddlewareResult<any, TNextCtx>>;
+
 /**
  * Middleware function type
- * 
+ *
  * Matches next-safe-action's middleware signature:
  * - next() accepts { ctx: newContext } to merge/add to context
  * - ctx is the current context (may be undefined initially)
- * - metadata is optional action metadata
+ * - metadata is optional action metadata (typed by the client's defineMetadataSchema)
+ * - clientInput and bindArgsClientInputs are the raw inputs, parsedInput the validated input
+ * - TNextCtx is the context the middleware adds (typed ctx in later middleware and handlers)
  */
-export type Middleware<TContext extends Record<string, any> = {}> = (params: {
-  next: (params?: { ctx?: Record<string, any> }) => Promise<any>;
+export type Middleware<
+  TContext extends Record<string, any> = object,
+  TMetadata = any,
+  TNextCtx extends Record<string, any> = object,
+> = (params: {
+  next: MiddlewareNext;
   ctx?: TContext;
+  metadata?: TMetadata;
+  clientInput?: unknown;
+  bindArgsClientInputs?: unknown[];
+  parsedInput?: unknown;
+}) => Promise<MiddlewareResult<any, TNextCtx>>;
+
+/**
+ * Middleware passed to client.use()
+ *
+ * Same as Middleware, but ctx and the inputs are always set: ctx is the context
+ * accumulated by the previous .use() calls.
+ */
+export type MiddlewareFn<
+  TContext extends Record<string, any> = object,
+  TMetadata = any,
+  TNextCtx extends Record<string, any> = object,
+> = (params: {
+  next: MiddlewareNext;
+  ctx: TContext;
+  metadata?: TMetadata;
+  clientInput: unknown;
+  bindArgsClientInputs: unknown[];
+  parsedInput: unknown;
+}) => Promise<MiddlewareResult<any, TNextCtx>>;
+
+/**
+ * Requirements of middleware created with createMiddleware<TBase>()
+ *
+ * ctx is the context the middleware expects from the previous middleware, metadata the
+ * action metadata type. serverError is accepted for next-safe-action compatibility.
+ */
+export interface MiddlewareBase {
+  ctx?: Record<string, any>;
   metadata?: any;
-}) => Promise<any>;
+  serverError?: any;
+}
+
+/**
+ * Middleware function typed from createMiddleware's requirements
+ */
+export type DefinedMiddlewareFn<
+  TBase extends MiddlewareBase,
+  TNextCtx extends Record<string, any> = object,
+> = MiddlewareFn<
+  TBase extends { ctx: infer TCtx extends Record<string, any> } ? TCtx : object,
+  TBase extends { metadata: infer TMetadata } ? TMetadata : any,
+  TNextCtx
+>;
+
+/**
+ * Context injected by createAuthedMiddleware
+ */
+export interface AuthContext {
+  userId: string;
+  userEmail: string;
+  authToken: string;
+}
+
+/**
+ * Context injected by createOptionalAuthMiddleware
+ */
+export interface OptionalAuthContext extends AuthContext {
+  user: {
+    id: string;
+    email: string;
+  };
+}
+
+/**
+ * Flattens an intersection of context types into a single object type
+ */
+export type Prettify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Input schema factory passed to .inputSchema(): receives the schema defined earlier in the chain
+ * (undefined if none) and returns the new schema,
+ * e.g. async (prevSchema) => prevSchema.extend({ ... })
+ */
+export type InputSchemaFactory<
+  TPrevSchema extends StandardSchemaV1 | undefined,
+  TSchema extends StandardSchemaV1,
+> = (prevSchema: TPrevSchema) => TSchema | Promise<TSchema>;
+
+/**
+ * Parsed input type of an input schema (undefined for actions without an input schema)
+ */
+export type InferInput<TSchema extends StandardSchemaV1 | undefined> =
+  TSchema extends StandardSchemaV1 ? InferSchemaOutput<TSchema> : undefined;
+
+/**
+ * Parsed (output) types of a bindArgsSchemas tuple
+ */
+export type InferBindArgs<TSchemas extends readonly StandardSchemaV1[]> = {
+  [K in keyof TSchemas]: TSchemas[K] extends StandardSchemaV1
+    ? InferSchemaOutput<TSchemas[K]>
+    : never;
+};
+
+/**
+ * Client (input) types of a bindArgsSchemas tuple
+ */
+export type InferBindArgsInputs<TSchemas extends readonly StandardSchemaV1[]> = {
+  [K in keyof TSchemas]: TSchemas[K] extends StandardSchemaV1
+    ? InferSchemaInput<TSchemas[K]>
+    : never;
+};
 
 /**
  * Action handler function type
  */
-export type ActionHandler<TInput, TOutput, TContext extends Record<string, any> = {}> = (params: {
+export type ActionHandler<
+  TInput,
+  TOutput,
+  TContext extends Record<string, any> = object,
+  TBindArgs extends readonly unknown[] = [],
+> = (params: {
   parsedInput: TInput;
+  bindArgsParsedInputs: TBindArgs;
   ctx: TContext;
 }) => Promise<TOutput>;
 
+/**
+ * Handler passed to .stateAction()
+ *
+ * Same as ActionHandler, with the result of the previous call as second argument
+ * ({} on the first call, as passed by React's useActionState).
+ */
+export type StateActionHandler<
+  TInput,
+  TOutput,
+  TContext extends Record<string, any> = object,
+  TBindArgs extends readonly unknown[] = [],
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> = (
+  params: Parameters<ActionHandler<TInput, TOutput, TContext, TBindArgs>>[0],
+  utils: { prevResult: SafeActionResult<TOutput, TServerError, TValidationErrors> }
+) => Promise<TOutput>;
+
+/**
+ * Kind of framework navigation (redirect(), notFound(), ...) that ended an action
+ */
+export type NavigationKind = 'redirect' | 'notFound' | 'forbidden' | 'unauthorized' | 'other';
+
+/**
+ * Navigation triggered by a Next.js navigation error
+ * url, redirectType and statusCode are only set for redirects.
+ */
+export interface NavigationOutcome {
+  kind: NavigationKind;
+  url?: string;
+  redirectType?: 'push' | 'replace';
+  statusCode?: number;
+}
+
+/**
+ * Arguments shared by every server side action callback
+ */
+export interface SafeActionCallbackArgs<TCtx, TMetadata> {
+  metadata: TMetadata;
+  ctx?: TCtx;
+  clientInput: unknown;
+  bindArgsClientInputs: unknown[];
+}
+
+/**
+ * Server side callbacks passed as the second argument of .action()
+ *
+ * Called after the action has run, with the final result (awaited before the action returns).
+ */
+export interface SafeActionCallbacks<
+  TOutput,
+  TInput = unknown,
+  TCtx = any,
+  TMetadata = any,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TBindArgs extends readonly unknown[] = unknown[],
+> {
+  onSuccess?: (
+    args: SafeActionCallbackArgs<TCtx, TMetadata> & {
+      data?: TOutput;
+      parsedInput: TInput;
+      bindArgsParsedInputs: TBindArgs;
+    }
+  ) => unknown;
+  onError?: (
+    args: SafeActionCallbackArgs<TCtx, TMetadata> & {
+      error: Omit<SafeActionResult<TOutput, TServerError, TValidationErrors>, 'data'>;
+    }
+  ) => unknown;
+  onSettled?: (
+    args: SafeActionCallbackArgs<TCtx, TMetadata> & {
+      result: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+      navigationKind?: NavigationKind;
+    }
+  ) => unknown;
+  onNavigation?: (
+    args: SafeActionCallbackArgs<TCtx, TMetadata> & { navigationKind: NavigationKind }
+  ) => unknown;
+}
+
+/**
+ * Second argument of .action(): server side callbacks and error throwing options
+ * (next-safe-action's SafeActionUtils)
+ */
+export interface SafeActionUtils<
+  TOutput,
+  TInput = unknown,
+  TCtx = any,
+  TMetadata = any,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TBindArgs extends readonly unknown[] = unknown[],
+> extends SafeActionCallbacks<
+  TOutput,
+  TInput,
+  TCtx,
+  TMetadata,
+  TServerError,
+  TValidationErrors,
+  TBindArgs
+> {
+  /**
+   * Throws the serverError (as returned by handleServerError) instead of returning it in the result
+   */
+  throwServerError?: boolean;
+  /**
+   * Throws an ActionValidationError instead of returning validation errors in the result.
+   * Wins over the client's throwValidationErrors. overrideErrorMessage sets the error message.
+   */
+  throwValidationErrors?:
+    | boolean
+    | { overrideErrorMessage: (validationErrors: TValidationErrors) => Promise<string> };
+}
+
+/**
+ * Invocation of an action, recorded in action.calls
+ *
+ * result is set once the action returns,
+ * error if it throws (navigation errors, throwServerError, ...).
+ * ctx and the parsed inputs are the ones the handler received (or the last ones reached).
+ */
+export interface ActionCall<
+  TOutput = unknown,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> {
+  args: unknown[];
+  clientInput: unknown;
+  bindArgsClientInputs: unknown[];
+  prevResult?: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+  metadata: unknown;
+  ctx: Record<string, any>;
+  parsedInput: unknown;
+  bindArgsParsedInputs: unknown[];
+  result?: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+  error?: unknown;
+  durationMs: number;
+}
+
+/**
+ * Invocation history of an action function
+ *
+ * mock, _isMockFunction and getMockName make actions work with the call matchers of Jest and
+ * Vitest (toHaveBeenCalledWith, toHaveBeenCalledTimes, ...). mock.calls holds the arguments.
+ */
+export interface RecordedAction<
+  TOutput = unknown,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> {
+  readonly calls: ActionCall<TOutput, TServerError, TValidationErrors>[];
+  readonly lastCall: ActionCall<TOutput, TServerError, TValidationErrors> | undefined;
+  resetCalls: () => void;
+  readonly mock: {
+    readonly calls: unknown[][];
+    readonly results: { type: 'return' | 'throw' | 'incomplete'; value: unknown }[];
+  };
+  readonly _isMockFunction: true;
+  getMockName: () => string;
+}
+
+/**
+ * Action function returned by .action()
+ *
+ * Bound arguments come first (matching action.bind(null, ...args)), input is always last.
+ * The input is optional for actions without an input schema.
+ */
+export type SafeActionFn<
+  TOutput,
+  TBindArgsSchemas extends readonly StandardSchemaV1[] = [],
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TSchema extends StandardSchemaV1 | undefined = StandardSchemaV1,
+> = ((
+  ...clientInputs: TSchema extends StandardSchemaV1
+    ? [...bindArgs: InferBindArgsInputs<TBindArgsSchemas>, input: unknown]
+    : [...bindArgs: InferBindArgsInputs<TBindArgsSchemas>, input?: unknown]
+) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>) &
+  RecordedAction<TOutput, TServerError, TValidationErrors>;
+
+/**
+ * Action function returned by .stateAction()
+ *
+ * Takes the previous result before the input, matching useActionState's (prevState, payload) call.
+ */
+export type SafeStateActionFn<
+  TOutput,
+  TBindArgsSchemas extends readonly StandardSchemaV1[] = [],
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+  TSchema extends StandardSchemaV1 | undefined = StandardSchemaV1,
+> = ((
+  ...clientInputs: TSchema extends StandardSchemaV1
+    ? [
+        ...bindArgs: InferBindArgsInputs<TBindArgsSchemas>,
+        prevResult: SafeActionResult<TOutput, TServerError, TValidationErrors>,
+        input: unknown,
+      ]
+    : [
+        ...bindArgs: InferBindArgsInputs<TBindArgsSchemas>,
+        prevResult: SafeActionResult<TOutput, TServerError, TValidationErrors>,
+        input?: unknown,
+      ]
+) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>) &
+  RecordedAction<TOutput, TServerError, TValidationErrors>;
+
+/**
+ * Status of an action executed with the hooks (useAction, useOptimisticAction, useStateAction)
+ */
+export type HookActionStatus =
+  | 'idle'
+  | 'executing'
+  | 'transitioning'
+  | 'hasSucceeded'
+  | 'hasErrored'
+  | 'hasNavigated';
+
+/**
+ * Shorthand status flags returned by the hooks
+ */
+export interface HookShorthandStatus {
+  isIdle: boolean;
+  isExecuting: boolean;
+  isTransitioning: boolean;
+  isPending: boolean;
+  hasSucceeded: boolean;
+  hasErrored: boolean;
+  hasNavigated: boolean;
+}
+
+/**
+ * Client side callbacks passed to the hooks
+ *
+ * Called when the action status changes, like next-safe-action's hook callbacks.
+ */
+export interface HookCallbacks<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> {
+  onExecute?: (args: { input: unknown }) => unknown;
+  onSuccess?: (args: { data?: TOutput; input: unknown }) => unknown;
+  onError?: (args: {
+    error: Omit<SafeActionResult<TOutput, TServerError, TValidationErrors>, 'data'> & {
+      thrownError?: Error;
+    };
+    input: unknown;
+  }) => unknown;
+  onNavigation?: (args: { input: unknown; navigationKind: NavigationKind }) => unknown;
+  onSettled?: (args: {
+    result: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+    input: unknown;
+    navigationKind?: NavigationKind;
+  }) => unknown;
+}
+
+/**
+ * Action function passed to useAction and useOptimisticAction (bound arguments already applied)
+ */
+export type HookSafeActionFn<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> = (input?: any) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>;
+
+/**
+ * Action function passed to useStateAction (an action defined with .stateAction())
+ */
+export type HookSafeStateActionFn<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> = (
+  prevResult: SafeActionResult<TOutput, TServerError, TValidationErrors>,
+  input?: any
+) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors>>;
+
+/**
+ * Value returned by useAction
+ */
+export interface UseActionHookReturn<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> extends HookShorthandStatus {
+  execute: (input?: unknown) => void;
+  executeAsync: (
+    input?: unknown
+  ) => Promise<SafeActionResult<TOutput, TServerError, TValidationErrors> | undefined>;
+  input: unknown;
+  result: SafeActionResult<TOutput, TServerError, TValidationErrors>;
+  reset: () => void;
+  status: HookActionStatus;
+}
+
+/**
+ * Value returned by useOptimisticAction
+ */
+export interface UseOptimisticActionHookReturn<
+  TOutput,
+  TState,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> extends UseActionHookReturn<TOutput, TServerError, TValidationErrors> {
+  optimisticState: TState;
+}
+
+/**
+ * Value returned by useStateAction (no executeAsync and reset, like next-safe-action)
+ */
+export type UseStateActionHookReturn<
+  TOutput,
+  TServerError = string,
+  TValidationErrors = AnyValidationErrors,
+> = Omit<UseActionHookReturn<TOutput, TServerError, TValidationErrors>, 'executeAsync' | 'reset'>;
+
+/**
+ * Custom matchers for SafeActionResult (registered with expect.extend(safeActionMatchers))
+ *
+ * Paths are dotted field paths ('' for root errors), like the keys of fieldErrors.
+ */
+export interface SafeActionMatchers<R = unknown> {
+  /**
+   * The result has no errors (and its data equals the expected data, if given)
+   */
+  toBeActionSuccess(data?: unknown): R;
+  /**
+   * The result has a serverError (equal to the expected one, if given)
+   */
+  toHaveServerError(serverError?: unknown): R;
+  /**
+   * The result has a validation error at the path (containing the expected message, if given)
+   */
+  toHaveValidationError(path: string, message?: string | RegExp): R;
+  /**
+   * The result has a bound argument validation error (for the argument at index, if given)
+   */
+  toHaveBindArgsValidationError(index?: number, message?: string | RegExp): R;
+}
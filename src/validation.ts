@@ -1,65 +1,254 @@
-import { z } from 'zod';
-import type { SafeActionResult } from './types';
-import { wrapValidationErrors } from './result-wrapper';
+import type {
+  SafeActionResult,
+  ValidationErrorsList,
+  FlattenedValidationErrors,
+  AnyValidationErrors,
+  StandardSchemaV1,
+  StandardSchemaV1Issue,
+  InferSchemaOutput,
+  ValidationErrorsShape,
+} from './types';
+import { wrapValidationErrors, wrapBindArgsValidationErrors } from './result-wrapper';
+import { ActionMetadataValidationError } from './errors';
+import { isZodError, isZodSchema } from './zod-compat';
 
 /**
- * Validates input against Zod schema
+ * Returns the property key of an issue path segment ({ key } objects in some libraries)
  */
-export function validateInput<T extends z.ZodType>(
+function getPathKey(segment: PropertyKey | { readonly key: PropertyKey }): string {
+  return String(typeof segment === 'object' ? segment.key : segment);
+}
+
+/**
+ * Converts validation issues to field errors keyed by dotted path
+ */
+function buildFieldErrors(issues: readonly StandardSchemaV1Issue[]): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  issues.forEach((issue) => {
+    const path = (issue.path ?? []).map(getPathKey).join('.');
+    fieldErrors[path] = fieldErrors[path] || [];
+    fieldErrors[path].push(issue.message);
+  });
+  return fieldErrors;
+}
+
+/**
+ * Converts validation issues to next-safe-action's formatted validation errors
+ * Root level issues are collected in _errors, nested paths become nested objects
+ */
+function buildValidationErrors(issues: readonly StandardSchemaV1Issue[]): ValidationErrorsList {
+  const validationErrors: Record<string, any> = {};
+
+  issues.forEach((issue) => {
+    let current = validationErrors;
+    (issue.path ?? []).forEach((key) => {
+      const segment = getPathKey(key);
+      current[segment] = current[segment] || {};
+      current = current[segment];
+    });
+    current._errors = [...(current._errors || []), issue.message];
+  });
+
+  return validationErrors;
+}
+
+/**
+ * Parses a value with a Zod schema or any Standard Schema
+ *
+ * Zod schemas (v3 or v4) use parseAsync (Zod issues are kept as is), other libraries go through
+ * ~standard.validate. Errors that are not validation errors are rethrown.
+ */
+async function parseSchema<T extends StandardSchemaV1>(
+  schema: T,
+  value: unknown
+): Promise<
+  | { success: true; data: InferSchemaOutput<T> }
+  | { success: false; issues: readonly StandardSchemaV1Issue[] }
+> {
+  if (isZodSchema(schema)) {
+    try {
+      return { success: true, data: (await schema.parseAsync(value)) as InferSchemaOutput<T> };
+    } catch (error) {
+      // Zod v3 and v4 errors, from any zod instance
+      if (isZodError(error)) {
+        return { success: false, issues: error.issues };
+      }
+      throw error;
+    }
+  }
+
+  const result = await schema['~standard'].validate(value);
+  if (result.issues) {
+    return { success: false, issues: result.issues };
+  }
+  return { success: true, data: result.value as InferSchemaOutput<T> };
+}
+
+/**
+ * Returns formatted validation errors unchanged
+ * Matches next-safe-action's formatValidationErrors (the default shape)
+ */
+export function formatValidationErrors<TValidationErrors extends ValidationErrorsList>(
+  validationErrors: TValidationErrors
+): TValidationErrors {
+  return validationErrors;
+}
+
+/**
+ * Converts formatted validation errors to the flattened shape ({ formErrors, fieldErrors })
+ * Matches next-safe-action's flattenValidationErrors: only top level fields are kept
+ */
+export function flattenValidationErrors<TValidationErrors extends ValidationErrorsList>(
+  validationErrors: TValidationErrors
+): FlattenedValidationErrors<TValidationErrors> {
+  const flattened: { formErrors: string[]; fieldErrors: Record<string, string[]> } = {
+    formErrors: [],
+    fieldErrors: {},
+  };
+
+  Object.entries(validationErrors).forEach(([key, value]) => {
+    if (key === '_errors') {
+      flattened.formErrors = [...(value || [])];
+      return;
+    }
+    if (value?._errors) {
+      flattened.fieldErrors[key] = [...value._errors];
+    }
+  });
+
+  return flattened as FlattenedValidationErrors<TValidationErrors>;
+}
+
+/**
+ * Converts formatted validation errors ({ field: { _errors } }) to field errors keyed by path
+ * Root level errors are keyed by an empty path, matching Zod issues without a path
+ */
+export function validationErrorsToFieldErrors(
+  validationErrors: ValidationErrorsList & AnyValidationErrors,
+  parentPath = ''
+): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  Object.entries(validationErrors).forEach(([key, value]) => {
+    if (key === '_errors') {
+      if (Array.isArray(value) && value.length > 0) {
+        fieldErrors[parentPath] = [...value];
+      }
+      return;
+    }
+    if (value && typeof value === 'object') {
+      const path = parentPath ? `${parentPath}.${key}` : key;
+      Object.assign(
+        fieldErrors,
+        validationErrorsToFieldErrors(value as ValidationErrorsList, path)
+      );
+    }
+  });
+
+  return fieldErrors;
+}
+
+/**
+ * Validates input against its schema (Zod or any Standard Schema)
+ * Parses asynchronously, so async refinements are reported as validation errors
+ */
+export async function validateInput<T extends StandardSchemaV1>(
   input: unknown,
   schema: T
-): { success: true; data: z.infer<T> } | { success: false; result: SafeActionResult<never> } {
-  try {
-    const parsed = schema.parse(input);
-    return { success: true, data: parsed };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const fieldErrors: Record<string, string[]> = {};
-      // Zod v4 uses 'issues' instead of 'errors'
-      error.issues.forEach((issue) => {
-        const path = issue.path.join('.');
-        fieldErrors[path] = fieldErrors[path] || [];
-        fieldErrors[path].push(issue.message);
-      });
-      return { success: false, result: wrapValidationErrors(fieldErrors) };
+): Promise<
+  | { success: true; data: InferSchemaOutput<T> }
+  | { success: false; result: SafeActionResult<never, never, ValidationErrorsList> }
+> {
+  const parsed = await parseSchema(schema, input);
+  if (!parsed.success) {
+    return {
+      success: false,
+      result: wrapValidationErrors(
+        buildFieldErrors(parsed.issues),
+        buildValidationErrors(parsed.issues)
+      ),
+    };
+  }
+  return { success: true, data: parsed.data };
+}
+
+/**
+ * Validates bound arguments against their schemas
+ * Returns bindArgsValidationErrors (one entry per bound argument) if any argument is invalid,
+ * in the formatted shape like next-safe-action, or flattened if shape is 'flattened'
+ */
+export async function validateBindArgs(
+  bindArgs: readonly unknown[],
+  schemas: readonly StandardSchemaV1[],
+  shape: ValidationErrorsShape = 'formatted'
+): Promise<
+  | { success: true; data: unknown[] }
+  | { success: false; result: SafeActionResult<never, never, never> }
+> {
+  const parsedBindArgs: unknown[] = [];
+  const bindArgsErrors: AnyValidationErrors[] = [];
+  let hasErrors = false;
+
+  for (const [index, schema] of schemas.entries()) {
+    const parsed = await parseSchema(schema, bindArgs[index]);
+    if (parsed.success) {
+      parsedBindArgs.push(parsed.data);
+      bindArgsErrors.push({});
+    } else {
+      hasErrors = true;
+      parsedBindArgs.push(undefined);
+      const validationErrors = buildValidationErrors(parsed.issues);
+      bindArgsErrors.push(
+        shape === 'flattened' ? flattenValidationErrors(validationErrors) : validationErrors
+      );
     }
-    throw error;
   }
+
+  if (hasErrors) {
+    return { success: false, result: wrapBindArgsValidationErrors(bindArgsErrors) };
+  }
+  return { success: true, data: parsedBindArgs };
+}
+
+/**
+ * Validates action metadata against the client's metadata schema (defineMetadataSchema)
+ * Throws ActionMetadataValidationError if metadata is missing or invalid
+ */
+export async function validateMetadata<T extends StandardSchemaV1>(
+  metadata: unknown,
+  schema: T
+): Promise<InferSchemaOutput<T>> {
+  const parsed = await parseSchema(schema, metadata);
+  if (!parsed.success) {
+    throw new ActionMetadataValidationError(buildValidationErrors(parsed.issues));
+  }
+  return parsed.data;
 }
 
 /**
- * Validates output (handler return value) against Zod schema
+ * Validates output (handler return value) against its schema
  * Returns validation errors if output doesn't match schema
  */
-export function validateOutput<T extends z.ZodType>(
+export async function validateOutput<T extends StandardSchemaV1>(
   output: unknown,
   schema: T
-): { success: true; data: z.infer<T> } | { success: false; result: SafeActionResult<never> } {
-  try {
-    const parsed = schema.parse(output);
-    return { success: true, data: parsed };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      const fieldErrors: Record<string, string[]> = {};
-      // Zod v4 uses 'issues' instead of 'errors'
-      error.issues.forEach((issue) => {
-        const path = issue.path.join('.');
-        fieldErrors[path] = fieldErrors[path] || [];
-        fieldErrors[path].push(issue.message);
-      });
-      // For output validation errors, we use validationErrors instead of fieldErrors
-      // to distinguish from input validation errors
-      return {
-        success: false,
-        result: {
-          data: undefined,
-          serverError: undefined,
-          fieldErrors: undefined,
-          validationErrors: fieldErrors,
-        },
-      };
-    }
-    throw error;
+): Promise<
+  | { success: true; data: InferSchemaOutput<T> }
+  | { success: false; result: SafeActionResult<never, never> }
+> {
+  const parsed = await parseSchema(schema, output);
+  if (!parsed.success) {
+    // For output validation errors, we use validationErrors instead of fieldErrors
+    // to distinguish from input validation errors
+    return {
+      success: false,
+      result: {
+        data: undefined,
+        serverError: undefined,
+        fieldErrors: undefined,
+        validationErrors: buildFieldErrors(parsed.issues),
+      },
+    };
   }
+  return { success: true, data: parsed.data };
 }
-
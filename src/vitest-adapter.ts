@@ -22,6 +22,17 @@
  *   };
  * });
  * ```
+ *
+ * @example
+ * ```typescript
+ * // vitest.setup.ts
+ * import { expect } from 'vitest';
+ * import { safeActionMatchers } from 'safemocker/vitest';
+ *
+ * expect.extend(safeActionMatchers);
+ * ```
+ *
+ * The matchers are typed on Vitest 5's expect by safemocker/vitest/matchers (see there).
  */
 
 export {
@@ -32,5 +43,6 @@ export {
   createMetadataValidatedActionClient,
   createCompleteActionClient,
 } from './helpers';
-export type { MockSafeActionClientConfig } from './types';
-
+export { createFormData, formDataToObject } from './form-data';
+export { safeActionMatchers } from './matchers';
+export type { MockSafeActionClientConfig, SafeActionMatchers } from './types';
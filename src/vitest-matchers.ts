@@ -0,0 +1,29 @@
+/**
+ * Types the safemocker matchers on Vitest 5's expect (safemocker/vitest/matchers)
+ *
+ * Kept out of safemocker/vitest: Vitest 3.2 and 4 declare Matchers with other type parameters,
+ * and merging declarations with different type parameters is an error.
+ *
+ * @example
+ * ```typescript
+ * // vitest.setup.ts
+ * import { expect } from 'vitest';
+ * import { safeActionMatchers } from 'safemocker/vitest';
+ * import 'safemocker/vitest/matchers';
+ *
+ * expect.extend(safeActionMatchers);
+ * ```
+ */
+
+// Loads Vitest's types, so the augmentation below applies
+import type {} from 'vitest';
+import type { SafeActionMatchers } from './types';
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  interface Matchers<
+    R extends void | Promise<void> = void | Promise<void>,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    T = unknown,
+  > extends SafeActionMatchers<R> {}
+}
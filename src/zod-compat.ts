@@ -0,0 +1,34 @@
+/**
+ * Zod v3 / v4 compatibility
+ *
+ * Schemas may be built with Zod 3 or Zod 4, or with another copy of zod than the one
+ * safemocker resolves, so `instanceof z.ZodError` can't be relied on. Zod schemas and
+ * errors are detected by their shape instead, which is the same in both versions.
+ */
+
+import type { ZodCompatibleError, ZodCompatibleSchema } from './types';
+
+// Zod 4 core (zod/mini) errors are named $ZodError
+const ZOD_ERROR_NAMES = ['ZodError', '$ZodError'];
+
+/**
+ * Checks whether a schema is a Zod schema (v3 or v4)
+ */
+export function isZodSchema(schema: unknown): schema is ZodCompatibleSchema {
+  return (
+    typeof schema === 'object' &&
+    schema !== null &&
+    typeof (schema as Partial<ZodCompatibleSchema>).parseAsync === 'function'
+  );
+}
+
+/**
+ * Checks whether an error is a ZodError (v3 or v4), whatever zod instance threw it
+ */
+export function isZodError(error: unknown): error is ZodCompatibleError {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  const { name, issues } = error as Partial<ZodCompatibleError>;
+  return typeof name === 'string' && ZOD_ERROR_NAMES.includes(name) && Array.isArray(issues);
+}
@@ -3,7 +3,14 @@ import { defineConfig } from 'tsup';
 export default defineConfig([
   // CJS build - MUST output CommonJS syntax (module.exports, require)
   {
-    entry: ['src/index.ts', 'src/jest-adapter.ts', 'src/vitest-adapter.ts'],
+    entry: [
+      'src/index.ts',
+      'src/jest-adapter.ts',
+      'src/vitest-adapter.ts',
+      'src/vitest-matchers.ts',
+      'src/hooks.ts',
+      'src/next-safe-action.ts',
+    ],
     format: 'cjs',
     dts: false,
     splitting: false,
@@ -11,7 +18,7 @@ export default defineConfig([
     clean: false,
     treeshake: true,
     bundle: true, // Bundle dependencies to ensure proper CJS conversion
-    external: ['next-safe-action', 'zod'],
+    external: ['next-safe-action', 'zod', 'react', 'vitest'],
     // Use separate tsconfig with CommonJS module setting
     tsconfig: './tsconfig.cjs.json',
     outExtension({ format }) {
@@ -27,18 +34,24 @@ export default defineConfig([
   },
   // ESM build - Output ESM syntax (export, import)
   {
-    entry: ['src/index.ts', 'src/jest-adapter.ts', 'src/vitest-adapter.ts'],
+    entry: [
+      'src/index.ts',
+      'src/jest-adapter.ts',
+      'src/vitest-adapter.ts',
+      'src/vitest-matchers.ts',
+      'src/hooks.ts',
+      'src/next-safe-action.ts',
+    ],
     format: 'esm',
     dts: false,
     splitting: false,
     sourcemap: true,
     clean: false,
     treeshake: true,
-    external: ['next-safe-action', 'zod'],
+    external: ['next-safe-action', 'zod', 'react', 'vitest'],
     tsconfig: './tsconfig.json',
     outExtension() {
       return { js: '.mjs' };
     },
   },
 ]);
-